@@ -1,153 +1,353 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Upload, Sparkles, Send, X, Download, RotateCcw, Image as ImageIcon, Video, History, ChevronLeft, Trash2, Share2, FileText, User, Github, Linkedin, Code, ZoomIn } from 'lucide-react';
-import { jsPDF } from "jspdf";
-import { analyzeImage, editImage, analyzeVideo } from './services/geminiService';
-import { AppState, ImageFile, EditResult, CaptureMode, HistoryItem } from './types';
+import React, { useState, useRef, useEffect, useMemo, useReducer } from 'react';
+import { Camera, Upload, Sparkles, Send, X, Download, Undo2, Redo2, Columns2, Brush, ScanText, Image as ImageIcon, Video, History, ChevronLeft, Trash2, Share2, FileText, User, Github, Linkedin, Code, ZoomIn, Settings, Check, Star, Tag, Search, Archive, ArchiveRestore, CloudOff, SlidersHorizontal, SwitchCamera, Flashlight, BarChart3, RefreshCw, AlertTriangle } from 'lucide-react';
+import { AppState, AppError, AnalysisResult, ImageFile, EditResult, EditChain, ChatMessage, DocumentPage, Quad, QueueJob, CaptureMode, HistoryItem, StorageUsage, AppSettings, ReportFormat, HistoryFilter, ArchiveImportReport, AnalysisPreset, LiveScanStatus, CameraSettings, CameraCapabilities, CameraFacing, RequestOptions, UsageRecord, UsageSettings } from './types';
 import { Button } from './components/Button';
 import { LoadingOverlay } from './components/LoadingOverlay';
+import { SettingsSheet } from './components/SettingsSheet';
+import { CameraSheet } from './components/CameraSheet';
+import { EditTimeline } from './components/EditTimeline';
+import { CompareSlider } from './components/CompareSlider';
+import { MaskEditor, MaskEditorHandle } from './components/MaskEditor';
+import { ChatPanel } from './components/ChatPanel';
+import { AnnotatedImage } from './components/AnnotatedImage';
+import { CornerAdjuster } from './components/CornerAdjuster';
+import { DocumentViewer } from './components/DocumentViewer';
+import { QueuePanel } from './components/QueuePanel';
+import { HistoryFilters } from './components/HistoryFilters';
+import { TagEditor } from './components/TagEditor';
+import { PresetPicker } from './components/PresetPicker';
+import { PresetManager } from './components/PresetManager';
+import { StructuredFields } from './components/StructuredFields';
+import { LiveOverlay } from './components/LiveOverlay';
+import { VideoTimeline } from './components/VideoTimeline';
+import { ErrorBanner } from './components/ErrorBanner';
+import { Toast } from './components/Toast';
+import { UsageSheet } from './components/UsageSheet';
+import { createProvider } from './services/providers';
+import { loadSettings, saveSettings } from './services/settings';
+import { checkBudget, clearUsage, formatCost, loadUsage, withUsageTracking } from './services/usage';
+import { analysisScope, withAnalysisCache } from './services/analysisCache';
+import { BUILT_IN_PRESETS, findPreset, loadCustomPresets, loadSelectedPresetId, saveCustomPresets, saveSelectedPresetId } from './services/presets';
+import { blobToBase64, canvasToBlob, captureVideoFrames, createFileId, dataUrlToBlob, formatBytes, hashBlob, mediaBlob } from './services/media';
+import { fileToImageFile, preprocessImage } from './services/preprocess';
+import { createJobQueue, JobQueue, JobRunner } from './services/jobQueue';
+import { createLiveScanner } from './services/liveScan';
+import { baseMimeType, pickRecordingFormat } from './services/recording';
+import { applyTorch, applyZoom, focusAt, listCameras, loadCameraSettings, openCamera, previewPointToFrame, readCapabilities, saveCameraSettings } from './services/camera';
+import { appStateReducer } from './services/appMachine';
+import { ActiveRequest, RequestCancelledError, abortReason, startRequest } from './services/requests';
+import { classifyError, describeError } from './services/errors';
+import { createPendingQueue, PendingQueue } from './services/pendingQueue';
+import { requestBackgroundSync } from './services/serviceWorker';
+import * as historyStore from './services/historyStore';
+import { compositeMasked } from './services/mask';
+import { detectDocumentQuad, warpPerspective } from './services/documentScan';
+import { documentToMarkdown, documentToText, downloadFile, exportDocumentPdf } from './services/documentExport';
+import { buildReport, downloadReport } from './services/report';
+import { ArchiveError, exportArchive, importArchive } from './services/archive';
+import { EMPTY_FILTER, collectTags, filterHistory, groupByDay } from './services/historySearch';
+import { findInsightIndex, findObjectForInsight, mentionsLabel } from './services/detections';
+import { appendEditStep, canRedo, canUndo, getCurrentEditImage, getStep, redoEdit, selectEditStep, undoEdit } from './services/editChain';
 
-// Helper to convert file/blob to base64
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(blob);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
-  });
-};
+const IMPORT_CONCURRENCY = 3;
 
 export default function App() {
   // Application State
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
+  const [appState, transition] = useReducer(appStateReducer, AppState.IDLE);
   const [captureMode, setCaptureMode] = useState<CaptureMode>(CaptureMode.PHOTO);
   
   // Data State
   const [currentFile, setCurrentFile] = useState<ImageFile | null>(null);
   const [editPrompt, setEditPrompt] = useState("");
-  const [editedImage, setEditedImage] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [compare, setCompare] = useState<[string | null, string | null] | null>(null);
+  const [masking, setMasking] = useState(false);
+  const [hasMask, setHasMask] = useState(false);
+  const [chatPending, setChatPending] = useState(false);
+  const [activeLabel, setActiveLabel] = useState<string | null>(null);
+
+  // Document Scan State
+  const [scanFrame, setScanFrame] = useState<{ image: string; quad: Quad } | null>(null);
+  const [scanPages, setScanPages] = useState<DocumentPage[]>([]);
+  const [documentPage, setDocumentPage] = useState(0);
+
+  // Batch Import State
+  const [queueJobs, setQueueJobs] = useState<QueueJob[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+
+  // Live Scan State
+  const [liveStatus, setLiveStatus] = useState<LiveScanStatus>('watching');
+  const [liveResult, setLiveResult] = useState<ImageFile | null>(null);
+  const [liveError, setLiveError] = useState<string | null>(null);
+
+  // Video Playback State
+  const [videoTime, setVideoTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [error, setError] = useState<AppError | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const [reportSelection, setReportSelection] = useState<string[] | null>(null);
+  const [historyTask, setHistoryTask] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<ArchiveImportReport | null>(null);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
   const [showDeveloper, setShowDeveloper] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [customPresets, setCustomPresets] = useState<AnalysisPreset[]>(loadCustomPresets);
+  const [presetId, setPresetId] = useState(loadSelectedPresetId);
+  const [showPresets, setShowPresets] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>(loadUsage);
+  const budgetWarnedRef = useRef<string | null>(null);
+
+  // Cache hits never reach the provider, so they cost nothing and aren't held to the budget
+  const provider = useMemo(() => withAnalysisCache(
+    withUsageTracking(createProvider(settings), settings.usage, () => recordUsage(settings.usage)),
+    analysisScope(settings)
+  ), [settings]);
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...customPresets], [customPresets]);
+  const activePreset = findPreset(presets, presetId);
+  const editedImage = getCurrentEditImage(currentFile?.edits);
+  const historyTags = useMemo(() => collectTags(history), [history]);
+  const visibleHistory = useMemo(() => filterHistory(history, historyFilter), [history, historyFilter]);
+  const historyGroups = useMemo(() => groupByDay(visibleHistory), [visibleHistory]);
+  const pendingCount = useMemo(() => history.filter(i => i.pending).length, [history]);
   
   // Camera & Recording State
   const [cameraError, setCameraError] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [streamed, setStreamed] = useState<{ fileId: string; analysis: AnalysisResult } | null>(null);
+  const streamedAnalysis = streamed && streamed.fileId === currentFile?.id ? streamed.analysis : null;
+  const shownAnalysis = streamedAnalysis || currentFile?.analysis;
   
-  // Zoom State
+  // Camera Controls State
   const [zoom, setZoom] = useState(1);
-  const [maxZoom, setMaxZoom] = useState(1);
-  const [supportsZoom, setSupportsZoom] = useState(false);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities | null>(null);
+  const [showCameraSheet, setShowCameraSheet] = useState(false);
+  const [focusMarker, setFocusMarker] = useState<{ x: number; y: number } | null>(null);
 
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const playerRef = useRef<HTMLVideoElement>(null);
   const videoTrackRef = useRef<MediaStreamTrack | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
+  const autoStopRef = useRef<number | null>(null);
+  const maskRef = useRef<MaskEditorHandle>(null);
+  const editInputRef = useRef<HTMLInputElement>(null);
+  const importJobRef = useRef<JobRunner<File> | null>(null);
+  const queueRef = useRef<JobQueue<File> | null>(null);
+  const liveAnalyzeRef = useRef<((frame: Blob, signal: AbortSignal) => Promise<void>) | null>(null);
+  const requestRef = useRef<ActiveRequest | null>(null);
+  const chatRequestRef = useRef<ActiveRequest | null>(null);
+  const pendingQueueRef = useRef<PendingQueue | null>(null);
+  const analyzePendingRef = useRef<((item: HistoryItem) => Promise<void>) | null>(null);
+  // The capture as of the last render, for results that land after an await
+  const currentFileRef = useRef<ImageFile | null>(null);
+  currentFileRef.current = currentFile;
+
+  const refreshStorageUsage = () => {
+    historyStore.getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  };
 
-  // Load history on mount
+  // Load history on mount, migrating any legacy localStorage entries first
   useEffect(() => {
-    const saved = localStorage.getItem('nanoLensHistory');
-    if (saved) {
+    const loadHistory = async () => {
       try {
-        setHistory(JSON.parse(saved));
+        await historyStore.migrateLegacyHistory();
+        setHistory(await historyStore.listHistory());
+        // Catch up on anything captured offline last time
+        pendingQueueRef.current?.flush();
       } catch (e) {
         console.error("Failed to load history", e);
+        setHistoryError("History could not be loaded on this device.");
       }
-    }
+      refreshStorageUsage();
+    };
+    loadHistory();
   }, []);
 
-  // Save history on change
+  // Analyzes pending captures whenever connectivity returns
   useEffect(() => {
-    localStorage.setItem('nanoLensHistory', JSON.stringify(history));
-  }, [history]);
+    const queue = createPendingQueue(
+      async () => (await historyStore.listHistory()).filter(i => i.pending),
+      item => analyzePendingRef.current!(item),
+      // Kept in history as a failed capture; the user can still re-run it
+      async item => {
+        const updated = await historyStore.updateHistoryMeta(item.id, { pending: undefined });
+        if (updated) setHistory(prev => prev.map(i => i.id === updated.id ? updated : i));
+      },
+      (analyzed) => {
+        if (analyzed) setNotice(`${analyzed} pending capture${analyzed === 1 ? '' : 's'} analyzed`);
+      }
+    );
+    pendingQueueRef.current = queue;
+    return () => queue.stop();
+  }, []);
 
-  // Camera Management
+  // Camera Management. The stream stays up for as long as the camera view
+  // does, recording included, and restarts when the camera choice changes.
+  const cameraOn = appState === AppState.IDLE || appState === AppState.RECORDING;
   useEffect(() => {
+    if (!cameraOn) return;
     let stream: MediaStream | null = null;
+    let cancelled = false;
 
     const startCamera = async () => {
-      if (appState !== AppState.IDLE && appState !== AppState.RECORDING) return;
-
       try {
         setCameraError(false);
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            facingMode: 'environment',
-            width: { ideal: 1920 },
-            height: { ideal: 1080 },
-            // @ts-ignore
-            zoom: true 
-          },
-          audio: captureMode === CaptureMode.VIDEO 
-        });
-
+        const opened = await openCamera(cameraSettings, captureMode === CaptureMode.VIDEO);
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = opened;
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
         }
 
         const track = stream.getVideoTracks()[0];
         videoTrackRef.current = track;
-        
-        // @ts-ignore
-        if (track.getCapabilities) {
-           // @ts-ignore
-           const capabilities: any = track.getCapabilities();
-           if (capabilities && 'zoom' in capabilities) {
-             setSupportsZoom(true);
-             setMaxZoom(capabilities.zoom.max);
-             setZoom(capabilities.zoom.min || 1);
-           }
-        }
+        const trackCapabilities = readCapabilities(track);
+        setCapabilities(trackCapabilities);
+        setZoom(trackCapabilities.zoom?.min ?? 1);
+        if (trackCapabilities.torch && cameraSettings.torch) applyTorch(track, true);
 
+        // Device labels are only filled in once permission has been granted
+        setCameras(await listCameras());
       } catch (err) {
         console.error("Failed to access camera:", err);
         setCameraError(true);
       }
     };
-
-    if (appState === AppState.IDLE) {
-      startCamera();
-    } else {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-      if (videoTrackRef.current) {
-        videoTrackRef.current.stop();
-      }
-    }
+    startCamera();
 
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-      if (videoTrackRef.current) {
-        videoTrackRef.current.stop();
-      }
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      videoTrackRef.current = null;
     };
-  }, [appState, captureMode]);
+  }, [cameraOn, captureMode, cameraSettings.deviceId, cameraSettings.facing, cameraSettings.resolution]);
 
-  const handleZoomChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // The torch switches on the running track without reopening the camera
+  useEffect(() => {
+    if (videoTrackRef.current && capabilities?.torch) applyTorch(videoTrackRef.current, cameraSettings.torch);
+  }, [cameraSettings.torch]);
+
+  useEffect(() => {
+    if (!focusMarker) return;
+    const timer = window.setTimeout(() => setFocusMarker(null), 900);
+    return () => window.clearTimeout(timer);
+  }, [focusMarker]);
+
+  // Live scan runs only while the camera is up, and stops as soon as anything else takes over
+  const liveActive = captureMode === CaptureMode.LIVE && appState === AppState.IDLE && !cameraError;
+  useEffect(() => {
+    if (!liveActive || !videoRef.current) return;
+    const scanner = createLiveScanner(videoRef.current, (frame, signal) => liveAnalyzeRef.current!(frame, signal), setLiveStatus);
+    return () => scanner.stop();
+  }, [liveActive]);
+
+  const handleZoomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newZoom = parseFloat(e.target.value);
     setZoom(newZoom);
-    
-    if (videoTrackRef.current) {
-      try {
-        // @ts-ignore
-        await videoTrackRef.current.applyConstraints({
-          advanced: [{ zoom: newZoom }]
-        });
-      } catch (err) {
-        console.warn("Zoom not supported directly:", err);
-      }
+    if (videoTrackRef.current) applyZoom(videoTrackRef.current, newZoom);
+  };
+
+  const updateCameraSettings = (next: CameraSettings) => {
+    saveCameraSettings(next);
+    setCameraSettings(next);
+  };
+
+  const flipCamera = () => {
+    // A specific device may face either way, so flip from what the track reports
+    const current = (videoTrackRef.current?.getSettings().facingMode as CameraFacing | undefined) || cameraSettings.facing;
+    updateCameraSettings({ ...cameraSettings, deviceId: null, facing: current === 'user' ? 'environment' : 'user' });
+  };
+
+  const focusPreview = (e: React.MouseEvent<HTMLVideoElement>) => {
+    const track = videoTrackRef.current;
+    if (!track || !(capabilities?.focus || capabilities?.exposure)) return;
+    const point = previewPointToFrame(e.currentTarget, e.clientX, e.clientY);
+    if (!point) return;
+    focusAt(track, capabilities, point.x, point.y);
+    setFocusMarker({ x: e.clientX, y: e.clientY });
+  };
+
+  // One foreground request at a time; starting another or leaving the capture cancels it
+  const beginRequest = () => {
+    requestRef.current?.cancel();
+    setStreamed(null);
+    const request = startRequest(settings.requestTimeout);
+    requestRef.current = request;
+    return request;
+  };
+
+  const endRequest = (request: ActiveRequest) => {
+    request.done();
+    if (requestRef.current === request) {
+      requestRef.current = null;
+      setUploadProgress(null);
+      setStreamed(null);
+    }
+  };
+
+  // Shows an analysis in the viewer as it streams in and remembers the latest, in case the stream breaks off
+  const streamAnalysis = (fileId: string) => {
+    const latest = { current: null as AnalysisResult | null };
+    const onPartialAnalysis = (analysis: AnalysisResult) => {
+      latest.current = analysis;
+      setStreamed({ fileId, analysis });
+    };
+    return { latest, onPartialAnalysis };
+  };
+
+  // What a broken-off stream managed to send is kept, marked incomplete, unless the
+  // user cancelled or the model refused partway
+  const cutOffAnalysis = (err: unknown, request: ActiveRequest, latest: AnalysisResult | null): AnalysisResult | null => {
+    const reason = abortReason(request.signal);
+    if (!latest || reason instanceof RequestCancelledError || classifyError(reason || err).kind === 'safety') return null;
+    return { ...latest, incomplete: true };
+  };
+
+  // Local failures (exports, unreadable files) have nothing to classify or retry
+  const showError = (title: string) => setError({ title, action: 'none' });
+
+  // Returns false for a cancelled request: whoever cancelled it has already moved the app on.
+  // `recover` supplies what the retry and rephrase actions do for this operation.
+  const reportRequestFailure = (err: unknown, request: ActiveRequest, title: string, recover: Partial<Record<'retry' | 'rephrase', () => void>> = {}) => {
+    const reason = abortReason(request.signal);
+    if (reason instanceof RequestCancelledError) return false;
+    console.error(err);
+    const described = describeError(reason || err, title);
+    setError({ ...described, recover: described.action === 'retry' || described.action === 'rephrase' ? recover[described.action] : undefined });
+    return true;
+  };
+
+  // Cancel on the overlay: a fresh capture goes back to the camera, anything else back to the viewer
+  const cancelRequest = () => {
+    requestRef.current?.cancel();
+    if (appState === AppState.ANALYZING && !currentFile?.analysis) {
+      resetApp();
+    } else {
+      transition(AppState.VIEWING);
     }
   };
 
   const handleCapture = async () => {
-    if (captureMode === CaptureMode.PHOTO) {
+    if (captureMode === CaptureMode.PHOTO || captureMode === CaptureMode.LIVE) {
       capturePhoto();
+    } else if (captureMode === CaptureMode.DOCUMENT) {
+      captureDocumentFrame();
     } else {
       if (appState === AppState.IDLE) {
         startRecording();
@@ -157,6 +357,49 @@ export default function App() {
     }
   };
 
+  const analyzeLiveFrame = async (frame: Blob, signal: AbortSignal) => {
+    if (!navigator.onLine) {
+      setLiveError("You're offline. Live analysis resumes once you reconnect.");
+      return;
+    }
+    const file: ImageFile = {
+      id: createFileId(),
+      ...await preprocessImage(frame, settings.preprocess),
+      timestamp: Date.now(),
+      type: 'image',
+      preset: activePreset
+    };
+    const request = startRequest(settings.requestTimeout);
+    signal.addEventListener('abort', request.cancel, { once: true });
+    try {
+      const analysis = await provider.analyzeImage(file.raw, file.mimeType, activePreset, { signal: request.signal, itemId: file.id });
+      request.signal.throwIfAborted();
+      setLiveResult({ ...file, analysis });
+      setLiveError(null);
+    } catch (err) {
+      // The scanner stopped because the user left live mode
+      const reason = abortReason(request.signal);
+      if (reason instanceof RequestCancelledError) return;
+      console.error(err);
+      setLiveError(`${describeError(reason || err, "Live analysis failed.").detail} Retrying when the scene changes.`);
+    } finally {
+      request.done();
+    }
+  };
+  liveAnalyzeRef.current = analyzeLiveFrame;
+
+  const pinLiveResult = () => {
+    if (!liveResult || history.some(i => i.id === liveResult.id)) return;
+    addToHistory(liveResult);
+  };
+
+  const openLiveResult = () => {
+    if (!liveResult) return;
+    setCurrentFile(liveResult);
+    if (!history.some(i => i.id === liveResult.id)) addToHistory(liveResult);
+    transition(AppState.VIEWING);
+  };
+
   const capturePhoto = async () => {
     if (!videoRef.current) return;
     const video = videoRef.current;
@@ -166,15 +409,12 @@ export default function App() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     ctx.drawImage(video, 0, 0);
-    
-    const base64String = canvas.toDataURL('image/jpeg', 0.9);
-    const rawBase64 = base64String.split(',')[1];
 
+    // Near-lossless intermediate; the preprocessing step picks the final codec and size
+    const frame = await canvasToBlob(canvas, 'image/jpeg', 0.95);
     const newFile: ImageFile = {
-      id: Date.now().toString(),
-      preview: base64String,
-      raw: rawBase64,
-      mimeType: 'image/jpeg',
+      id: createFileId(),
+      ...await preprocessImage(frame, settings.preprocess),
       timestamp: Date.now(),
       type: 'image'
     };
@@ -183,11 +423,123 @@ export default function App() {
     await performAnalysis(newFile);
   };
 
+  const captureDocumentFrame = () => {
+    if (!videoRef.current) return;
+    const video = videoRef.current;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+
+    setScanFrame({
+      image: canvas.toDataURL('image/jpeg', 0.95),
+      quad: detectDocumentQuad(canvas, canvas.width, canvas.height)
+    });
+    transition(AppState.ADJUSTING);
+  };
+
+  const confirmDocumentPage = async (quad: Quad, finish: boolean) => {
+    if (!scanFrame) return;
+    const img = new Image();
+    img.src = scanFrame.image;
+    await img.decode();
+    const flattened = await canvasToBlob(warpPerspective(img, quad), 'image/jpeg', 0.95);
+    // Pages stay JPEG whatever codec is configured, since the PDF export embeds them as JPEG
+    const processed = await preprocessImage(flattened, { ...settings.preprocess, codec: 'image/jpeg' });
+    const page: DocumentPage = {
+      id: `${Date.now()}-${scanPages.length}`,
+      image: processed.preview,
+      text: ''
+    };
+    const pages = [...scanPages, page];
+    setScanFrame(null);
+
+    if (finish) {
+      await finishDocument(pages);
+    } else {
+      setScanPages(pages);
+      transition(AppState.IDLE);
+    }
+  };
+
+  const finishDocument = async (pages: DocumentPage[]) => {
+    setScanPages([]);
+    setDocumentPage(0);
+    setError(null);
+    const first = pages[0];
+    const newFile: ImageFile = {
+      id: createFileId(),
+      preview: first.image,
+      raw: first.image.split(',')[1],
+      mimeType: 'image/jpeg',
+      timestamp: Date.now(),
+      type: 'image',
+      pages
+    };
+    setCurrentFile(newFile);
+    await performAnalysis(newFile);
+  };
+
+  const updateDocumentText = (pageId: string, text: string) => {
+    if (!currentFile?.pages) return;
+    updateCurrentFile({ ...currentFile, pages: currentFile.pages.map(p => p.id === pageId ? { ...p, text } : p) });
+  };
+
+  const exportDocument = (format: 'txt' | 'md' | 'pdf') => {
+    if (!currentFile?.pages) return;
+    try {
+      if (format === 'txt') downloadFile("nano-lens-scan.txt", documentToText(currentFile.pages));
+      if (format === 'md') downloadFile("nano-lens-scan.md", documentToMarkdown(currentFile.pages), 'text/markdown');
+      if (format === 'pdf') exportDocumentPdf(currentFile.pages);
+    } catch (e) {
+      showError("Could not export the document.");
+    }
+  };
+
+  // Runs whichever analysis a capture needs (page transcription for documents) and returns it with the result attached
+  const analyzeCapture = async (file: ImageFile, preset: AnalysisPreset, options: RequestOptions = {}): Promise<ImageFile> => {
+    if (file.pages) {
+      // Pages are transcribed one at a time to stay within rate limits
+      const pages: DocumentPage[] = [];
+      for (const page of file.pages) {
+        pages.push({ ...page, text: await provider.extractText(page.image.split(',')[1], 'image/jpeg', { signal: options.signal, itemId: file.id }) });
+        options.signal?.throwIfAborted();
+      }
+      return { ...file, pages, analysis: { description: `Scanned document, ${pages.length} page${pages.length === 1 ? '' : 's'}`, points: [] } };
+    }
+    const analysis = file.type === 'video'
+      ? await analyzeVideoFile(file, preset, options)
+      : await provider.analyzeImage(file.raw, file.mimeType, preset, { ...options, itemId: file.id });
+    return { ...file, analysis, preset };
+  };
+
+  // Adds a keyframe thumbnail to each segment so the timeline and PDF can show it
+  const analyzeVideoFile = async (file: ImageFile, preset: AnalysisPreset, options: RequestOptions = {}): Promise<AnalysisResult> => {
+    const result = await provider.analyzeVideo(mediaBlob(file), preset, { ...options, itemId: file.id });
+    if (!result.segments?.length) return result;
+    try {
+      const keyframes = await captureVideoFrames(file.preview, result.segments.map(s => s.start));
+      return { ...result, segments: result.segments.map((s, i) => ({ ...s, keyframe: keyframes[i] })) };
+    } catch (err) {
+      console.warn("Could not capture segment keyframes", err);
+      return result;
+    }
+  };
+
+  const seekVideo = (time: number) => {
+    if (!playerRef.current) return;
+    playerRef.current.currentTime = time;
+    playerRef.current.play().catch(() => {});
+  };
+
   const startRecording = () => {
     if (!videoRef.current || !videoRef.current.srcObject) return;
     
     const stream = videoRef.current.srcObject as MediaStream;
-    const recorder = new MediaRecorder(stream);
+    const format = pickRecordingFormat(stream.getAudioTracks().length > 0);
+    const recorder = new MediaRecorder(stream, format ? { mimeType: format } : undefined);
     chunksRef.current = [];
     
     recorder.ondataavailable = (e) => {
@@ -195,191 +547,568 @@ export default function App() {
     };
 
     recorder.onstop = async () => {
-      const blob = new Blob(chunksRef.current, { type: 'video/webm' });
+      if (timerRef.current) clearInterval(timerRef.current);
+      if (autoStopRef.current) clearTimeout(autoStopRef.current);
+      // The recorder reports what it actually produced, which can differ from the request
+      const mimeType = baseMimeType(recorder.mimeType || format || 'video/webm');
+      const blob = new Blob(chunksRef.current, { type: mimeType });
       const base64String = await blobToBase64(blob);
       const rawBase64 = base64String.split(',')[1];
 
       const newFile: ImageFile = {
-        id: Date.now().toString(),
+        id: createFileId(),
         preview: base64String,
         raw: rawBase64,
-        mimeType: 'video/webm',
+        blob,
+        mimeType,
+        hash: await hashBlob(blob),
         timestamp: Date.now(),
         type: 'video'
       };
 
       setCurrentFile(newFile);
-      setAppState(AppState.ANALYZING);
-      
-      try {
-        const result = await analyzeVideo(newFile.raw, newFile.mimeType);
-        const fileWithAnalysis = { ...newFile, analysis: result };
-        setCurrentFile(fileWithAnalysis);
-        addToHistory(fileWithAnalysis);
-        setAppState(AppState.VIEWING);
-      } catch (err) {
-        setError("Video analysis failed.");
-        setAppState(AppState.VIEWING);
-      }
+      await performAnalysis(newFile);
     };
 
     mediaRecorderRef.current = recorder;
     recorder.start();
-    setAppState(AppState.RECORDING);
+    transition(AppState.RECORDING);
     
     setRecordingTime(0);
     timerRef.current = window.setInterval(() => {
       setRecordingTime(t => t + 1);
     }, 1000);
+    autoStopRef.current = window.setTimeout(stopRecording, settings.video.maxDuration * 1000);
   };
 
+  // Reads the recorder's own state so the auto-stop timer can call it from a stale render
   const stopRecording = () => {
-    if (mediaRecorderRef.current && appState === AppState.RECORDING) {
+    if (mediaRecorderRef.current?.state === 'recording') {
       mediaRecorderRef.current.stop();
-      if (timerRef.current) clearInterval(timerRef.current);
     }
   };
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Batch imports are analyzed in the background and land straight in history. Offline,
+  // they're saved as pending like any other capture, and the job counts as done.
+  const runImportJob: JobRunner<File> = async (file, reportProgress) => {
+    reportProgress(0.1);
+    const imageFile = await reuseHistoryEntry(await fileToImageFile(file, settings.preprocess));
+    const captured = { ...imageFile, preset: activePreset };
+    const deferImport = async () => {
+      await storeInHistory(captured, true);
+      requestBackgroundSync();
+      refreshStorageUsage();
+    };
+    if (!navigator.onLine) return deferImport();
+    reportProgress(0.3);
+    const request = startRequest(settings.requestTimeout);
+    let analysis: AnalysisResult;
+    try {
+      analysis = await (imageFile.type === 'video'
+        ? analyzeVideoFile(imageFile, activePreset, { signal: request.signal, onUploadProgress: fraction => reportProgress(0.3 + fraction * 0.5) })
+        : provider.analyzeImage(imageFile.raw, imageFile.mimeType, activePreset, { signal: request.signal, itemId: imageFile.id }));
+    } catch (err) {
+      const reason = abortReason(request.signal) || err;
+      if (classifyError(reason).kind !== 'network') throw reason;
+      console.warn(`Import of ${file.name} deferred until back online`, err);
+      return deferImport();
+    } finally {
+      request.done();
+    }
+    reportProgress(0.9);
+    await storeInHistory({ ...captured, analysis });
+    refreshStorageUsage();
+  };
+  importJobRef.current = runImportJob;
+  if (!queueRef.current) {
+    queueRef.current = createJobQueue<File>(IMPORT_CONCURRENCY, (file, report) => importJobRef.current!(file, report), setQueueJobs);
+  }
+
+  const importFiles = (files: File[]) => {
+    const media = files.filter(f => f.type.startsWith('image') || f.type.startsWith('video'));
+    if (media.length === 0) return;
+    if (media.length === 1 && appState === AppState.IDLE) {
+      openFile(media[0]);
+      return;
+    }
+    media.forEach(file => queueRef.current?.add(file.name, file));
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    importFiles(Array.from(event.target.files || []));
+    // Allow picking the same files again
+    event.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    importFiles(Array.from(e.dataTransfer.files));
+  };
 
-    setEditedImage(null);
+  const openFile = async (file: File) => {
+    setCompare(null);
+    setMasking(false);
+    setActiveLabel(null);
     setEditPrompt("");
     setError(null);
     
+    let newFile: ImageFile;
     try {
-      const base64String = await blobToBase64(file);
-      const rawBase64 = base64String.split(',')[1];
-      const isVideo = file.type.startsWith('video');
-      
-      const newFile: ImageFile = {
-        id: Date.now().toString(),
-        preview: base64String,
-        raw: rawBase64,
-        mimeType: file.type,
-        timestamp: Date.now(),
-        type: isVideo ? 'video' : 'image'
-      };
+      newFile = await fileToImageFile(file, settings.preprocess);
+    } catch (err) {
+      console.error(err);
+      showError("Failed to process file.");
+      return;
+    }
+    setCurrentFile(newFile);
+    await performAnalysis(newFile);
+  };
 
-      setCurrentFile(newFile);
-      
-      if (isVideo) {
-         setAppState(AppState.ANALYZING);
-         const result = await analyzeVideo(newFile.raw, newFile.mimeType);
-         const fileWithAnalysis = { ...newFile, analysis: result };
-         setCurrentFile(fileWithAnalysis);
-         addToHistory(fileWithAnalysis);
-         setAppState(AppState.VIEWING);
+  // Keeps a capture that couldn't be analyzed; the pending queue picks it up once back online.
+  // The app is on its way back to the camera, where the error banner isn't shown, so both
+  // outcomes are reported in a toast.
+  const savePending = async (file: ImageFile, reason: string) => {
+    try {
+      await storeInHistory(file, true);
+      setHistoryError(null);
+      requestBackgroundSync();
+      setNotice(`${reason} Saved to history for analysis later.`);
+    } catch (err) {
+      console.error("Failed to save pending capture", err);
+      const message = err instanceof historyStore.HistoryQuotaError ? err.message : "This capture could not be saved to history.";
+      setHistoryError(message);
+      setNotice(`${reason} ${message}`);
+    }
+    refreshStorageUsage();
+  };
+
+  // Analyzes a fresh capture. The result only lands if the request wasn't
+  // cancelled or superseded, so leaving the capture always wins.
+  const performAnalysis = async (fresh: ImageFile) => {
+    const file = await reuseHistoryEntry(fresh);
+    if (file !== fresh) setCurrentFile(prev => prev?.id === fresh.id ? file : prev);
+    const captured = file.pages ? file : { ...file, preset: activePreset };
+    if (!navigator.onLine) {
+      // No point waiting on a request; save it and get back to capturing
+      savePending(captured, "You're offline.");
+      resetApp();
+      return;
+    }
+
+    transition(AppState.ANALYZING);
+    const request = beginRequest();
+    const stream = streamAnalysis(file.id);
+    try {
+      const analyzed = await analyzeCapture(captured, activePreset, { signal: request.signal, onUploadProgress: setUploadProgress, onPartialAnalysis: stream.onPartialAnalysis });
+      request.signal.throwIfAborted();
+      setCurrentFile(prev => prev?.id === file.id ? analyzed : prev);
+      addToHistory(analyzed);
+    } catch (err) {
+      const title = file.pages ? "Could not extract text from the document." : file.type === 'video' ? "Video analysis failed." : "Could not analyze image.";
+      const retry = file.pages ? undefined : () => reanalyze(activePreset, captured);
+      const reason = abortReason(request.signal);
+      if (reason instanceof RequestCancelledError) return;
+      const partial = cutOffAnalysis(err, request, stream.latest.current);
+      if (partial) {
+        const kept = { ...captured, analysis: partial };
+        setCurrentFile(prev => prev?.id === file.id ? kept : prev);
+        addToHistory(kept);
+      } else if (classifyError(reason || err).kind === 'network') {
+        console.warn("Analysis deferred until back online", err);
+        savePending(captured, "Connection lost.");
+        resetApp();
+        return;
       } else {
-         await performAnalysis(newFile);
+        // Retrying by itself wouldn't help, so it isn't queued; the error offers what would
+        addToHistory(captured, false);
       }
+      reportRequestFailure(err, request, partial ? "The analysis was cut off. What arrived is kept." : title, { retry, rephrase: () => resetApp() });
+    } finally {
+      endRequest(request);
+    }
+    transition(AppState.VIEWING);
+  };
 
+  // Content already in history reopens that entry, with its tags, chat and edits, instead of
+  // being stored twice. The capture's timestamp moves it back to the top.
+  const reuseHistoryEntry = async (file: ImageFile): Promise<ImageFile> => {
+    const match = file.hash && history.find(i => i.hash === file.hash && !i.pages);
+    if (!match) return file;
+    try {
+      return { ...await historyStore.loadHistoryFile(match), timestamp: file.timestamp };
     } catch (err) {
-      console.error(err);
-      setError("Failed to process file.");
-      setAppState(AppState.IDLE);
+      console.warn("Could not reopen the matching history entry", err);
+      return file;
     }
   };
 
-  const performAnalysis = async (file: ImageFile) => {
-    setAppState(AppState.ANALYZING);
+  const analyzePendingItem = async (item: HistoryItem) => {
+    const file = await historyStore.loadHistoryFile(item);
+    const request = startRequest(settings.requestTimeout);
     try {
-      const result = await analyzeImage(file.raw, file.mimeType);
-      const fileWithAnalysis = { ...file, analysis: result };
-      setCurrentFile(fileWithAnalysis);
-      addToHistory(fileWithAnalysis);
-      setAppState(AppState.VIEWING);
+      const analyzed = await analyzeCapture(file, file.preset || activePreset, { signal: request.signal });
+      const saved = await historyStore.saveHistoryItem(analyzed);
+      setHistory(prev => prev.map(i => i.id === saved.id ? saved : i));
+      // Fill in the viewer if it's showing this capture, keeping anything done to it meanwhile
+      setCurrentFile(prev => prev?.id === analyzed.id && !prev.analysis ? { ...prev, analysis: analyzed.analysis, pages: analyzed.pages, preset: analyzed.preset } : prev);
     } catch (err) {
-      console.error(err);
-      setError("Could not analyze image.");
-      setAppState(AppState.VIEWING);
+      throw abortReason(request.signal) || err;
+    } finally {
+      request.done();
+    }
+  };
+  analyzePendingRef.current = analyzePendingItem;
+
+  // Saves to the top of history and evicts whatever that pushes past the limit
+  const storeInHistory = async (file: ImageFile, pending?: boolean) => {
+    const item = await historyStore.saveHistoryItem(file, pending);
+    const evicted = await historyStore.pruneHistory();
+    setHistory(prev => [item, ...prev.filter(i => i.id !== item.id && !evicted.includes(i.id))]);
+  };
+
+  const addToHistory = async (file: ImageFile, pending?: boolean) => {
+    try {
+      await storeInHistory(file, pending);
+      setHistoryError(null);
+    } catch (err) {
+      console.error("Failed to save history", err);
+      const message = err instanceof historyStore.HistoryQuotaError ? err.message : "This capture could not be saved to history.";
+      setHistoryError(message);
+      showError(message);
+    }
+    refreshStorageUsage();
+  };
+
+  // Keeps the viewer and an already-saved history entry in step. The viewer is
+  // only touched if it still shows this capture, so late responses can't clobber another one.
+  const updateCurrentFile = async (file: ImageFile) => {
+    setCurrentFile(prev => prev?.id === file.id ? file : prev);
+    if (!history.some(i => i.id === file.id)) return;
+    try {
+      const item = await historyStore.saveHistoryItem(file);
+      setHistory(prev => prev.map(i => i.id === item.id ? item : i));
+    } catch (err) {
+      console.error("Failed to update history", err);
+      setHistoryError(err instanceof historyStore.HistoryQuotaError ? err.message : "Changes to this capture could not be saved.");
+    }
+  };
+
+  const deleteHistoryItem = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await historyStore.deleteHistoryItem(id);
+      setHistory(prev => prev.filter(i => i.id !== id));
+      setHistoryError(null);
+    } catch (err) {
+      console.error("Failed to delete history item", err);
+      setHistoryError("Could not delete this capture.");
     }
+    refreshStorageUsage();
   };
 
-  const addToHistory = (item: HistoryItem) => {
-    setHistory(prev => [item, ...prev].slice(0, 50)); 
+  const updateHistoryMeta = async (id: string, patch: Pick<HistoryItem, 'tags' | 'favorite'>) => {
+    setHistory(prev => prev.map(i => i.id === id ? { ...i, ...patch } : i));
+    try {
+      await historyStore.updateHistoryMeta(id, patch);
+    } catch (err) {
+      console.error("Failed to update history item", err);
+      setHistoryError("This change could not be saved.");
+    }
   };
 
-  const deleteHistoryItem = (id: string, e: React.MouseEvent) => {
+  const toggleFavorite = (item: HistoryItem, e: React.MouseEvent) => {
     e.stopPropagation();
-    setHistory(prev => prev.filter(i => i.id !== id));
+    updateHistoryMeta(item.id, { favorite: !item.favorite });
   };
 
-  const restoreHistoryItem = (item: HistoryItem) => {
-    setCurrentFile(item);
-    setEditedImage(null);
-    setEditPrompt("");
-    setShowHistory(false);
-    setAppState(AppState.VIEWING);
+  const updateTags = (id: string, tags: string[]) => updateHistoryMeta(id, { tags });
+
+  const restoreHistoryItem = async (item: HistoryItem) => {
+    chatRequestRef.current?.cancel();
+    try {
+      const file = await historyStore.loadHistoryFile(item);
+      setCurrentFile(file);
+      setDocumentPage(0);
+      setCompare(null);
+      setMasking(false);
+      setActiveLabel(null);
+      setEditPrompt("");
+      setShowHistory(false);
+      transition(AppState.VIEWING);
+    } catch (err) {
+      console.error(err);
+      setHistoryError("This capture's media could not be loaded.");
+    }
   };
 
-  const handleEditSubmit = async (e: React.FormEvent) => {
+  const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitEdit();
+  };
+
+  const submitEdit = async () => {
     if (!currentFile || !editPrompt.trim() || currentFile.type === 'video') return;
 
-    setAppState(AppState.EDITING);
+    transition(AppState.EDITING);
     setError(null);
+    const request = beginRequest();
 
     try {
-      const sourceImageRaw = editedImage ? editedImage.split(',')[1] : currentFile.raw;
-      const result: EditResult = await editImage(sourceImageRaw, "image/png", editPrompt);
+      const sourceImage = editedImage || currentFile.preview;
+      const sourceImageRaw = sourceImage.split(',')[1];
+      const sourceMimeType = editedImage ? "image/png" : currentFile.mimeType;
+      const mask = masking && hasMask ? maskRef.current?.exportMask() : null;
+      const result: EditResult = await provider.editImage(sourceImageRaw, sourceMimeType, editPrompt, mask?.split(',')[1], { signal: request.signal, itemId: currentFile.id });
+      request.signal.throwIfAborted();
 
       if (result.imageData) {
-        setEditedImage(`data:image/png;base64,${result.imageData}`);
+        let image = `data:image/png;base64,${result.imageData}`;
+        if (mask) {
+          // Keep everything outside the mask pixel-identical to the source
+          image = await compositeMasked(sourceImage, image, mask);
+        }
+        const edits = appendEditStep(currentFile.edits, editPrompt.trim(), image, !!mask);
+        await updateCurrentFile({ ...currentFile, edits });
+        maskRef.current?.clear();
         setEditPrompt("");
-      } else if (result.textResponse) {
-        setError(result.textResponse);
       } else {
-        setError("No changes generated.");
+        // The model answered without an image, usually explaining why
+        setError({ title: "No changes generated.", detail: result.textResponse, action: 'rephrase', recover: () => editInputRef.current?.focus() });
       }
     } catch (err) {
-      setError("Failed to edit image.");
+      if (!reportRequestFailure(err, request, "Failed to edit image.", { retry: submitEdit, rephrase: () => editInputRef.current?.focus() })) return;
     } finally {
-      setAppState(AppState.VIEWING);
+      endRequest(request);
     }
+    transition(AppState.VIEWING);
   };
 
-  const exportToPDF = () => {
+  const askQuestion = async (question: string) => {
     if (!currentFile) return;
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    doc.setFontSize(22);
-    doc.setTextColor(40, 40, 40);
-    doc.text("Nano Lens Analysis", 20, 20);
-    doc.setFontSize(10);
-    doc.setTextColor(100, 100, 100);
-    doc.text(`Generated on ${new Date().toLocaleString()}`, 20, 30);
+    const message = (role: ChatMessage['role'], text: string): ChatMessage => ({
+      id: `${Date.now()}-${role}`,
+      role,
+      text,
+      timestamp: Date.now()
+    });
+
+    const asked = { ...currentFile, chat: [...(currentFile.chat || []), message('user', question)] };
+    await updateCurrentFile(asked);
+    setChatPending(true);
+    setError(null);
+    chatRequestRef.current?.cancel();
+    const request = startRequest(settings.requestTimeout);
+    chatRequestRef.current = request;
+
     try {
-      const imgProps = doc.getImageProperties(editedImage || currentFile.preview);
-      const margin = 20;
-      const maxImgWidth = pageWidth - (margin * 2);
-      const imgHeight = (imgProps.height * maxImgWidth) / imgProps.width;
-      const finalHeight = Math.min(imgHeight, 150);
-      doc.addImage(editedImage || currentFile.preview, 'JPEG', margin, 40, maxImgWidth, finalHeight);
-      let yPos = 40 + finalHeight + 20;
-      doc.setFontSize(16);
-      doc.setTextColor(0, 0, 0);
-      doc.text("Insights", margin, yPos);
-      yPos += 10;
-      doc.setFontSize(12);
-      doc.setTextColor(60, 60, 60);
-      const points = currentFile.analysis?.points || ["No analysis available."];
-      points.forEach((point, i) => {
-        const text = `${i + 1}. ${point}`;
-        const splitText = doc.splitTextToSize(text, maxImgWidth);
-        doc.text(splitText, margin, yPos);
-        yPos += (splitText.length * 7) + 5;
-      });
-      doc.save("nano-lens-report.pdf");
+      // Videos go as their Blob, so a large clip is uploaded in chunks like for analysis
+      const media = editedImage ? dataUrlToBlob(editedImage) : mediaBlob(currentFile);
+      const reply = await provider.chat(media, currentFile.analysis, asked.chat, { signal: request.signal, itemId: currentFile.id });
+      request.signal.throwIfAborted();
+      // Tags, edits or a re-run analysis may have landed while the model answered; a reply
+      // for a capture the user has since left is dropped
+      const latest = currentFileRef.current;
+      if (latest?.id !== asked.id) return;
+      await updateCurrentFile({ ...latest, chat: [...(latest.chat || []), message('model', reply)] });
+    } catch (err) {
+      const reason = abortReason(request.signal);
+      if (!(reason instanceof RequestCancelledError)) {
+        console.error(err);
+        setError(describeError(reason || err, "Could not answer that question."));
+      }
+    } finally {
+      request.done();
+      if (chatRequestRef.current === request) {
+        chatRequestRef.current = null;
+        setChatPending(false);
+      }
+    }
+  };
+
+  const cancelChat = () => chatRequestRef.current?.cancel();
+
+  const selectDetection = (label: string | null) => {
+    setActiveLabel(label);
+    if (!label) return;
+    const index = findInsightIndex(currentFile?.analysis?.points, label);
+    if (index !== -1) {
+      document.getElementById(`insight-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  };
+
+  const navigateEdits = (move: (chain: EditChain) => EditChain) => {
+    if (!currentFile?.edits) return;
+    updateCurrentFile({ ...currentFile, edits: move(currentFile.edits) });
+  };
+
+  const toggleCompare = () => {
+    const current = currentFile?.edits?.currentId ?? null;
+    setMasking(false);
+    setCompare(prev => prev ? null : [getStep(currentFile?.edits, current)?.parentId ?? null, current]);
+  };
+
+  const toggleMasking = () => {
+    setCompare(null);
+    setHasMask(false);
+    setMasking(prev => !prev);
+  };
+
+  const stepImage = (id: string | null) => getStep(currentFile?.edits, id)?.image || currentFile?.preview || '';
+  const stepLabel = (id: string | null) => getStep(currentFile?.edits, id)?.prompt || 'Original';
+
+  const selectPreset = (preset: AnalysisPreset) => {
+    setPresetId(preset.id);
+    saveSelectedPresetId(preset.id);
+  };
+
+  const handlePresetsChange = (next: AnalysisPreset[]) => {
+    saveCustomPresets(next);
+    setCustomPresets(next);
+  };
+
+  // Re-analyzes the capture in view, e.g. an old one with a newer preset
+  const reanalyze = async (preset: AnalysisPreset, file = currentFile, refresh = false) => {
+    if (!file || file.pages) return;
+    transition(AppState.ANALYZING);
+    setError(null);
+    const request = beginRequest();
+    const stream = streamAnalysis(file.id);
+    const options: RequestOptions = { signal: request.signal, onUploadProgress: setUploadProgress, onPartialAnalysis: stream.onPartialAnalysis, refresh };
+    const store = async (analysis: AnalysisResult) => {
+      const updated = { ...file, analysis, preset };
+      setActiveLabel(null);
+      if (history.some(i => i.id === file.id)) {
+        await updateCurrentFile(updated);
+      } else {
+        setCurrentFile(prev => prev?.id === file.id ? updated : prev);
+        addToHistory(updated);
+      }
+    };
+    try {
+      const analysis = file.type === 'video'
+        ? await analyzeVideoFile(file, preset, options)
+        : await provider.analyzeImage(file.raw, file.mimeType, preset, { ...options, itemId: file.id });
+      request.signal.throwIfAborted();
+      await store(analysis);
+    } catch (err) {
+      const partial = cutOffAnalysis(err, request, stream.latest.current);
+      if (partial) await store(partial);
+      const title = partial ? "The analysis was cut off. What arrived is kept." : "Could not re-run the analysis.";
+      if (!reportRequestFailure(err, request, title, { retry: () => reanalyze(preset, file, refresh), rephrase: () => resetApp() })) return;
+    } finally {
+      endRequest(request);
+    }
+    transition(AppState.VIEWING);
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    saveSettings(next);
+    setSettings(next);
+    setShowSettings(false);
+  };
+
+  // Refreshes the dashboard after each call and warns once per period when a budget is nearly used up
+  const recordUsage = (usageSettings: UsageSettings) => {
+    const log = loadUsage();
+    setUsageLog(log);
+    const budget = checkBudget(log, usageSettings);
+    if (budget.status !== 'warning') return;
+    const now = new Date();
+    const period = budget.period === 'day' ? now.toDateString() : `${now.getFullYear()}-${now.getMonth()}`;
+    if (budgetWarnedRef.current === period) return;
+    budgetWarnedRef.current = period;
+    setNotice(`You've used ${formatCost(budget.spent)} of your ${budget.period === 'day' ? 'daily' : 'monthly'} ${formatCost(budget.limit)} budget`);
+  };
+
+  const handleSaveUsageSettings = (usage: UsageSettings) => {
+    const next = { ...settings, usage };
+    saveSettings(next);
+    setSettings(next);
+    setShowUsage(false);
+  };
+
+  const handleClearUsage = () => {
+    clearUsage();
+    setUsageLog([]);
+  };
+
+  const exportToPDF = async () => {
+    if (!currentFile) return;
+    if (currentFile.pages) return exportDocument('pdf');
+    try {
+      downloadReport(await buildReport([currentFile]), 'pdf');
+    } catch (e) {
+      console.error(e);
+      showError("Could not generate PDF.");
+    }
+  };
+
+  const toggleReportSelection = (id: string) => {
+    setReportSelection(prev => prev && (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  };
+
+  const exportReport = async (format: ReportFormat) => {
+    if (!reportSelection?.length) return;
+    setHistoryTask("Building report...");
+    try {
+      const items = history.filter(i => reportSelection.includes(i.id));
+      const files = await Promise.all(items.map(i => historyStore.loadHistoryFile(i)));
+      downloadReport(await buildReport(files), format);
+      setReportSelection(null);
+      setHistoryError(null);
+    } catch (e) {
+      console.error(e);
+      setHistoryError("Could not generate the report.");
+    } finally {
+      setHistoryTask(null);
+    }
+  };
+
+  const exportHistoryArchive = async (items: HistoryItem[]) => {
+    if (!items.length) return;
+    setHistoryTask("Packing archive...");
+    try {
+      downloadFile(`nano-lens-archive-${new Date().toISOString().slice(0, 10)}.zip`, await exportArchive(items));
+      setReportSelection(null);
+      setHistoryError(null);
+    } catch (e) {
+      console.error(e);
+      setHistoryError("Could not export the archive.");
+    } finally {
+      setHistoryTask(null);
+    }
+  };
+
+  const importHistoryArchive = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setHistoryTask("Importing archive...");
+    setImportReport(null);
+    try {
+      const report = await importArchive(file, history);
+      // Imports count toward the history limit like any other capture
+      const evicted = await historyStore.pruneHistory();
+      setHistory(prev => [...report.imported, ...prev].filter(i => !evicted.includes(i.id)).sort((a, b) => b.timestamp - a.timestamp));
+      setImportReport(report);
+      setHistoryError(null);
     } catch (e) {
-      setError("Could not generate PDF.");
+      console.error(e);
+      setHistoryError(e instanceof ArchiveError ? e.message : "Could not import this archive.");
+    } finally {
+      setHistoryTask(null);
+      refreshStorageUsage();
     }
   };
 
   const shareContent = async () => {
     if (!currentFile) return;
-    const text = currentFile.analysis?.points?.join('\n\n') || "Check out this analysis from Nano Lens!";
+    const conversation = currentFile.chat?.map(m => `${m.role === 'user' ? 'Q' : 'A'}: ${m.text}`).join('\n');
+    const text = [
+      currentFile.analysis?.points?.join('\n\n') || "Check out this analysis from Nano Lens!",
+      conversation
+    ].filter(Boolean).join('\n\n');
     if (navigator.share) {
       try {
         const blob = await (await fetch(editedImage || currentFile.preview)).blob();
@@ -392,16 +1121,19 @@ export default function App() {
       }
     } else {
       navigator.clipboard.writeText(text);
-      setError("Analysis copied to clipboard!");
-      setTimeout(() => setError(null), 2000);
+      setNotice("Analysis copied to clipboard");
     }
   };
 
   const resetApp = () => {
+    requestRef.current?.cancel();
+    chatRequestRef.current?.cancel();
     setCurrentFile(null);
-    setEditedImage(null);
+    setCompare(null);
+    setMasking(false);
+    setActiveLabel(null);
     setEditPrompt("");
-    setAppState(AppState.IDLE);
+    transition(AppState.IDLE);
     setRecordingTime(0);
     setZoom(1);
   };
@@ -413,11 +1145,61 @@ export default function App() {
   };
 
   return (
-    <div className="min-h-screen bg-zinc-950 text-zinc-100 font-sans overflow-hidden relative selection:bg-indigo-500 selection:text-white">
-      <input type="file" accept="image/*,video/*" ref={fileInputRef} className="hidden" onChange={handleFileSelect} />
+    <div
+      className="min-h-screen bg-zinc-950 text-zinc-100 font-sans overflow-hidden relative selection:bg-indigo-500 selection:text-white"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragActive(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+      }}
+      onDrop={handleDrop}
+    >
+      <input type="file" accept="image/*,video/*" multiple ref={fileInputRef} className="hidden" onChange={handleFileSelect} />
+      <input type="file" accept=".zip,application/zip" ref={archiveInputRef} className="hidden" onChange={importHistoryArchive} />
+
+      {dragActive && (
+        <div className="absolute inset-0 z-[60] flex items-center justify-center bg-indigo-950/70 backdrop-blur-sm border-4 border-dashed border-indigo-400 pointer-events-none">
+          <p className="text-white text-xl font-bold">Drop photos or videos to import</p>
+        </div>
+      )}
+
+      <QueuePanel
+        jobs={queueJobs}
+        onRetry={(id) => queueRef.current?.retry(id)}
+        onRemove={(id) => queueRef.current?.remove(id)}
+        onClearFinished={() => queueRef.current?.clearFinished()}
+      />
+
+      {notice && <Toast message={notice} onDismiss={() => setNotice(null)} />}
 
-      {appState === AppState.ANALYZING && <LoadingOverlay message="Analyzing Reality..." />}
+      {/* Once insights start streaming in, they show progress better than a spinner */}
+      {appState === AppState.ANALYZING && !streamedAnalysis && (
+        <LoadingOverlay message={uploadProgress !== null && uploadProgress < 1 ? `Uploading video ${Math.round(uploadProgress * 100)}%` : "Analyzing Reality..."} />
+      )}
       {appState === AppState.EDITING && <LoadingOverlay message="Editing with AI..." />}
+      {(appState === AppState.ANALYZING || appState === AppState.EDITING) && (
+        <button
+          onClick={cancelRequest}
+          className="fixed bottom-12 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-2 px-5 py-2.5 rounded-full bg-zinc-900/90 hover:bg-zinc-800 border border-zinc-700 backdrop-blur-md text-sm font-semibold text-white transition-all"
+        >
+          <X className="h-4 w-4" /> Cancel
+        </button>
+      )}
+
+      {appState === AppState.ADJUSTING && scanFrame && (
+        <CornerAdjuster
+          image={scanFrame.image}
+          initialQuad={scanFrame.quad}
+          pageCount={scanPages.length}
+          onRetake={() => {
+            setScanFrame(null);
+            transition(AppState.IDLE);
+          }}
+          onConfirm={confirmDocumentPage}
+        />
+      )}
 
       {appState === AppState.IDLE || appState === AppState.RECORDING ? (
         <div className="absolute inset-0 z-0 bg-black flex flex-col">
@@ -427,6 +1209,7 @@ export default function App() {
               autoPlay 
               playsInline 
               muted 
+              onClick={focusPreview}
               className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${appState === AppState.RECORDING ? 'opacity-80' : 'opacity-100'}`}
             />
           ) : (
@@ -441,7 +1224,25 @@ export default function App() {
             </div>
           )}
           
-          {!cameraError && appState === AppState.IDLE && (
+          {focusMarker && (
+            <div
+              className="fixed z-10 h-16 w-16 -ml-8 -mt-8 rounded-full border-2 border-amber-400 pointer-events-none animate-in zoom-in-150 fade-in duration-200"
+              style={{ left: focusMarker.x, top: focusMarker.y }}
+            />
+          )}
+
+          {liveActive && (
+            <LiveOverlay
+              status={liveStatus}
+              result={liveResult}
+              pinned={!!liveResult && history.some(i => i.id === liveResult.id)}
+              error={liveError}
+              onPin={pinLiveResult}
+              onOpen={openLiveResult}
+            />
+          )}
+
+          {!cameraError && appState === AppState.IDLE && !(liveActive && liveResult?.analysis) && (
             <div className="absolute top-1/2 left-0 right-0 -translate-y-1/2 flex flex-col items-center justify-center pointer-events-none z-10">
               <div className="w-64 h-64 border border-white/20 rounded-3xl mb-4 relative opacity-60">
                 <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-white rounded-tl-xl shadow-sm"></div>
@@ -450,7 +1251,7 @@ export default function App() {
                 <div className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-white rounded-br-xl shadow-sm"></div>
               </div>
               <p className="text-white text-lg font-medium drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] bg-black/40 px-6 py-2 rounded-full backdrop-blur-md border border-white/10 animate-pulse">
-                Scan anything to know
+                {captureMode === CaptureMode.DOCUMENT ? "Fit the page in view" : captureMode === CaptureMode.LIVE ? "Point at something and hold still" : "Scan anything to know"}
               </p>
             </div>
           )}
@@ -472,15 +1273,31 @@ export default function App() {
                 <span>Mohsin</span>
               </button>
 
-              <button 
-                onClick={() => fileInputRef.current?.click()}
-                className="p-3.5 bg-black/40 backdrop-blur-xl rounded-full text-white border border-white/10 hover:bg-zinc-800/60 transition-all active:scale-95 shadow-lg"
-              >
-                <ImageIcon className="w-5 h-5" />
-              </button>
+              <div className="flex gap-2">
+                <button 
+                  onClick={() => setShowCameraSheet(true)}
+                  className="p-3.5 bg-black/40 backdrop-blur-xl rounded-full text-white border border-white/10 hover:bg-zinc-800/60 transition-all active:scale-95 shadow-lg"
+                  title="Camera settings"
+                >
+                  <SlidersHorizontal className="w-5 h-5" />
+                </button>
+                <button 
+                  onClick={() => setShowSettings(true)}
+                  className="p-3.5 bg-black/40 backdrop-blur-xl rounded-full text-white border border-white/10 hover:bg-zinc-800/60 transition-all active:scale-95 shadow-lg"
+                >
+                  <Settings className="w-5 h-5" />
+                </button>
+                <button 
+                  onClick={() => fileInputRef.current?.click()}
+                  className="p-3.5 bg-black/40 backdrop-blur-xl rounded-full text-white border border-white/10 hover:bg-zinc-800/60 transition-all active:scale-95 shadow-lg"
+                >
+                  <ImageIcon className="w-5 h-5" />
+                </button>
+              </div>
             </div>
             
-            <div className="self-center flex bg-black/40 backdrop-blur-xl rounded-full p-1.5 border border-white/10 shadow-lg">
+            <div className="self-center flex flex-wrap items-center justify-center gap-2">
+            <div className="flex bg-black/40 backdrop-blur-xl rounded-full p-1.5 border border-white/10 shadow-lg">
               <button
                 onClick={() => setCaptureMode(CaptureMode.PHOTO)}
                 className={`px-5 py-2 rounded-full text-sm font-bold transition-all duration-300 ${captureMode === CaptureMode.PHOTO ? 'bg-indigo-600 text-white shadow-md' : 'text-zinc-400 hover:text-white'}`}
@@ -493,26 +1310,43 @@ export default function App() {
               >
                 Video
               </button>
+              <button
+                onClick={() => setCaptureMode(CaptureMode.DOCUMENT)}
+                className={`px-5 py-2 rounded-full text-sm font-bold transition-all duration-300 ${captureMode === CaptureMode.DOCUMENT ? 'bg-indigo-600 text-white shadow-md' : 'text-zinc-400 hover:text-white'}`}
+              >
+                Document
+              </button>
+              <button
+                onClick={() => setCaptureMode(CaptureMode.LIVE)}
+                className={`px-5 py-2 rounded-full text-sm font-bold transition-all duration-300 ${captureMode === CaptureMode.LIVE ? 'bg-indigo-600 text-white shadow-md' : 'text-zinc-400 hover:text-white'}`}
+              >
+                Live
+              </button>
+            </div>
+            {captureMode !== CaptureMode.DOCUMENT && (
+              <PresetPicker presets={presets} selectedId={activePreset.id} onSelect={selectPreset} onManage={() => setShowPresets(true)} />
+            )}
             </div>
             
             {appState === AppState.RECORDING && (
                <div className="self-center flex items-center gap-2 bg-red-500/90 backdrop-blur text-white px-5 py-1.5 rounded-full text-sm font-mono font-bold animate-pulse shadow-red-500/20 shadow-lg">
                  <div className="w-2 h-2 rounded-full bg-white"></div>
                  {formatTime(recordingTime)}
+                 <span className="text-white/60">/ {formatTime(settings.video.maxDuration)}</span>
                </div>
             )}
           </div>
 
           {!cameraError && (
             <div className="absolute bottom-0 left-0 right-0 pb-12 pt-24 flex flex-col justify-end items-center z-20 bg-gradient-to-t from-black/95 via-black/60 to-transparent">
-              {supportsZoom && maxZoom > 1 && appState === AppState.IDLE && (
+              {capabilities?.zoom && appState === AppState.IDLE && (
                  <div className="mb-8 w-64 flex items-center gap-3 px-4 py-2 rounded-full bg-black/40 backdrop-blur-md border border-white/10">
                     <ZoomIn className="w-4 h-4 text-zinc-400" />
                     <input 
                       type="range" 
-                      min="1" 
-                      max={Math.min(maxZoom, 5)} 
-                      step="0.1" 
+                      min={capabilities.zoom.min} 
+                      max={capabilities.zoom.max} 
+                      step={capabilities.zoom.step} 
                       value={zoom} 
                       onChange={handleZoomChange}
                       className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
@@ -521,6 +1355,29 @@ export default function App() {
                  </div>
               )}
 
+              {captureMode === CaptureMode.DOCUMENT && scanPages.length > 0 && appState === AppState.IDLE && (
+                <button
+                  onClick={() => finishDocument(scanPages)}
+                  className="mb-6 flex items-center gap-2 px-5 py-2 rounded-full bg-indigo-600 text-white text-sm font-bold shadow-lg shadow-indigo-500/20 active:scale-95 transition-all"
+                >
+                  <ScanText className="w-4 h-4" />
+                  Finish {scanPages.length} page{scanPages.length === 1 ? '' : 's'}
+                </button>
+              )}
+
+              <div className="flex items-center gap-10">
+              {/* Fixed-size slots keep the shutter centred whatever is supported */}
+              <div className="w-12 h-12">
+                {capabilities?.torch && appState === AppState.IDLE && (
+                  <button
+                    onClick={() => updateCameraSettings({ ...cameraSettings, torch: !cameraSettings.torch })}
+                    className={`w-12 h-12 flex items-center justify-center rounded-full backdrop-blur-md border border-white/10 transition-all active:scale-90 ${cameraSettings.torch ? 'bg-amber-400 text-black' : 'bg-black/40 text-white'}`}
+                    title={cameraSettings.torch ? "Turn torch off" : "Turn torch on"}
+                  >
+                    <Flashlight className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
               <button 
                 onClick={handleCapture}
                 className={`group relative h-24 w-24 rounded-full border-[5px] flex items-center justify-center focus:outline-none transition-all active:scale-90 touch-manipulation shadow-2xl
@@ -534,6 +1391,18 @@ export default function App() {
                     : 'h-20 w-20 rounded-full bg-white group-hover:scale-95'}`}
                 ></div>
               </button>
+              <div className="w-12 h-12">
+                {cameras.length > 1 && appState === AppState.IDLE && (
+                  <button
+                    onClick={flipCamera}
+                    className="w-12 h-12 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-white transition-all active:scale-90"
+                    title="Switch camera"
+                  >
+                    <SwitchCamera className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+              </div>
             </div>
           )}
         </div>
@@ -554,11 +1423,26 @@ export default function App() {
                <button onClick={exportToPDF} className="p-2.5 bg-zinc-900 hover:bg-zinc-800 rounded-full text-zinc-300 hover:text-white transition-all" title="Export PDF">
                  <FileText className="h-4 w-4" />
                </button>
-               {editedImage && (
+               {currentFile.type === 'image' && !currentFile.pages && (
+                  <button onClick={toggleMasking} className={`p-2.5 rounded-full transition-all ${masking ? 'bg-indigo-600 text-white' : 'bg-zinc-900 hover:bg-zinc-800 text-zinc-300 hover:text-white'}`} title="Select region to edit">
+                      <Brush className="h-4 w-4" />
+                  </button>
+               )}
+               {!!currentFile.edits?.steps.length && (
                 <>
-                  <button onClick={() => setEditedImage(null)} className="p-2.5 bg-zinc-900 hover:bg-zinc-800 rounded-full text-zinc-300 hover:text-white transition-all" title="Undo Edit">
-                      <RotateCcw className="h-4 w-4" />
+                  <button onClick={() => navigateEdits(undoEdit)} disabled={!canUndo(currentFile.edits)} className="p-2.5 bg-zinc-900 hover:bg-zinc-800 disabled:opacity-40 rounded-full text-zinc-300 hover:text-white transition-all" title="Undo Edit">
+                      <Undo2 className="h-4 w-4" />
                   </button>
+                  <button onClick={() => navigateEdits(redoEdit)} disabled={!canRedo(currentFile.edits)} className="p-2.5 bg-zinc-900 hover:bg-zinc-800 disabled:opacity-40 rounded-full text-zinc-300 hover:text-white transition-all" title="Redo Edit">
+                      <Redo2 className="h-4 w-4" />
+                  </button>
+                  <button onClick={toggleCompare} className={`p-2.5 rounded-full transition-all ${compare ? 'bg-indigo-600 text-white' : 'bg-zinc-900 hover:bg-zinc-800 text-zinc-300 hover:text-white'}`} title="Compare">
+                      <Columns2 className="h-4 w-4" />
+                  </button>
+                </>
+               )}
+               {editedImage && (
+                <>
                   <a href={editedImage} download="nano-edit.png" className="p-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white shadow-lg shadow-indigo-500/20 transition-all" title="Download Image">
                     <Download className="h-4 w-4" />
                   </a>
@@ -570,23 +1454,122 @@ export default function App() {
           <div className="flex-1 overflow-y-auto overflow-x-hidden bg-zinc-950 pb-36 custom-scrollbar">
             <div className="w-full bg-black relative shadow-2xl border-b border-zinc-900">
               {currentFile.type === 'video' ? (
-                <video src={currentFile.preview} controls className="w-full max-h-[55vh] object-contain mx-auto" />
+                <video
+                  ref={playerRef}
+                  src={currentFile.preview}
+                  controls
+                  onTimeUpdate={(e) => setVideoTime(e.currentTarget.currentTime)}
+                  onLoadedMetadata={(e) => {
+                    setVideoTime(0);
+                    setVideoDuration(isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0);
+                  }}
+                  className="w-full max-h-[55vh] object-contain mx-auto"
+                />
+              ) : currentFile.pages ? (
+                <img src={currentFile.pages[documentPage]?.image || currentFile.preview} alt={`Page ${documentPage + 1}`} className="w-full max-h-[55vh] object-contain mx-auto" />
+              ) : masking ? (
+                <MaskEditor ref={maskRef} src={editedImage || currentFile.preview} onChange={setHasMask} />
+              ) : compare ? (
+                <CompareSlider before={stepImage(compare[0])} after={stepImage(compare[1])} beforeLabel={stepLabel(compare[0])} afterLabel={stepLabel(compare[1])} />
+              ) : !editedImage && (currentFile.analysis?.objects || currentFile.analysis?.textRegions) ? (
+                // Boxes were detected on the original, so they are only drawn over it
+                <AnnotatedImage
+                  src={currentFile.preview}
+                  objects={currentFile.analysis.objects}
+                  textRegions={currentFile.analysis.textRegions}
+                  activeLabel={activeLabel}
+                  onSelectLabel={selectDetection}
+                />
               ) : (
                 <img src={editedImage || currentFile.preview} alt="Result" className="w-full max-h-[55vh] object-contain mx-auto" />
               )}
             </div>
 
+            {currentFile.diagnostics && (
+              <p className="px-6 pt-3 text-center text-[11px] font-mono text-zinc-600">
+                {currentFile.diagnostics.originalWidth}×{currentFile.diagnostics.originalHeight} · {formatBytes(currentFile.diagnostics.originalBytes)}
+                {' → '}
+                {currentFile.diagnostics.width}×{currentFile.diagnostics.height} · {formatBytes(currentFile.diagnostics.processedBytes)}
+              </p>
+            )}
+
+            {currentFile.type === 'video' && (currentFile.analysis?.segments || currentFile.analysis?.events) && (
+              <div className="px-6 pt-4 max-w-2xl mx-auto">
+                <VideoTimeline
+                  segments={currentFile.analysis.segments || []}
+                  events={currentFile.analysis.events || []}
+                  duration={videoDuration}
+                  currentTime={videoTime}
+                  onSeek={seekVideo}
+                />
+              </div>
+            )}
+
+            {currentFile.edits && currentFile.edits.steps.length > 0 && (
+              <div className="px-6 pt-4 max-w-2xl mx-auto">
+                <EditTimeline
+                  chain={currentFile.edits}
+                  original={currentFile.preview}
+                  onSelect={(id) => navigateEdits(chain => selectEditStep(chain, id))}
+                  compare={compare}
+                  onCompareChange={setCompare}
+                />
+              </div>
+            )}
+
             <div className="p-6 max-w-2xl mx-auto space-y-6">
+              {currentFile.pages ? (
+                <DocumentViewer
+                  pages={currentFile.pages}
+                  pageIndex={documentPage}
+                  onPageChange={setDocumentPage}
+                  onChangeText={updateDocumentText}
+                  onExport={exportDocument}
+                />
+              ) : (
+              <>
               <div className="flex items-center gap-3 mb-6">
                 <div className="p-2 bg-indigo-500/10 rounded-lg">
                   <Sparkles className="h-5 w-5 text-indigo-500" />
                 </div>
                 <h3 className="text-xl font-bold text-white tracking-tight">Smart Insights</h3>
+                {/* Also offered after a failed or timed-out first analysis */}
+                {appState === AppState.VIEWING && (
+                  <div className="ml-auto flex items-center gap-2">
+                    {currentFile.analysis && currentFile.preset && (
+                      <button
+                        onClick={() => reanalyze(currentFile.preset!, currentFile, true)}
+                        className="p-2.5 bg-black/40 backdrop-blur-xl rounded-full border border-white/10 text-zinc-400 hover:text-white hover:bg-zinc-800/60 transition-all"
+                        title="Analyze again, ignoring any cached result"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </button>
+                    )}
+                    <PresetPicker
+                      presets={presets}
+                      selectedId={currentFile.preset?.id || ''}
+                      onSelect={reanalyze}
+                      label={!currentFile.analysis ? 'Analyze' : currentFile.preset ? `Re-run · ${currentFile.preset.name}` : 'Re-run'}
+                      align="right"
+                    />
+                  </div>
+                )}
               </div>
 
               <div className="grid gap-4">
-                 {currentFile.analysis?.points?.map((point, index) => (
-                   <div key={index} className="group relative flex items-start gap-4 p-5 rounded-2xl bg-zinc-900/40 border border-zinc-800/60 overflow-hidden hover:bg-zinc-900/60 hover:border-indigo-500/30 transition-all duration-300">
+                 {currentFile.analysis?.incomplete && !streamedAnalysis && (
+                   <div className="flex items-center gap-3 p-4 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-sm text-amber-300">
+                     <AlertTriangle className="h-5 w-5 shrink-0" />
+                     This analysis was cut off before it finished. Re-run it for the full result.
+                   </div>
+                 )}
+                 {shownAnalysis?.points?.map((point, index) => (
+                   <div
+                     key={index}
+                     id={`insight-${index}`}
+                     onClick={() => setActiveLabel(findObjectForInsight(shownAnalysis?.objects, point)?.label ?? null)}
+                     className={`group relative flex items-start gap-4 p-5 rounded-2xl border overflow-hidden transition-all duration-300 ${activeLabel && mentionsLabel(point, activeLabel) ? 'bg-indigo-500/10 border-indigo-500/60' : 'bg-zinc-900/40 border-zinc-800/60 hover:bg-zinc-900/60 hover:border-indigo-500/30'}`}
+                   >
                       <div className="relative shrink-0 flex h-8 w-8 items-center justify-center rounded-full bg-gradient-to-br from-indigo-500 to-violet-600 shadow-lg shadow-indigo-500/20 text-white font-bold text-sm">
                         {index + 1}
                       </div>
@@ -595,7 +1578,14 @@ export default function App() {
                       </p>
                    </div>
                  ))}
-                 {!currentFile.analysis?.points && (
+                 {streamedAnalysis ? (
+                   <div className="h-24 bg-zinc-900/30 rounded-2xl animate-pulse border border-zinc-800/30"></div>
+                 ) : !currentFile.analysis && history.some(i => i.id === currentFile.id && i.pending) ? (
+                   <div className="flex items-center gap-3 p-4 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-sm text-amber-300">
+                     <CloudOff className="h-5 w-5 shrink-0" />
+                     Saved without analysis. It will be analyzed automatically once you're back online.
+                   </div>
+                 ) : !currentFile.analysis?.points && (
                    <div className="space-y-4">
                       {[1, 2, 3].map(i => (
                         <div key={i} className="h-24 bg-zinc-900/30 rounded-2xl animate-pulse border border-zinc-800/30"></div>
@@ -603,19 +1593,30 @@ export default function App() {
                    </div>
                  )}
               </div>
-              {error && <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm text-center">{error}</div>}
+              {shownAnalysis?.fields && (
+                <div className="mt-8">
+                  <StructuredFields values={shownAnalysis.fields} fields={currentFile.preset?.fields} title={currentFile.preset?.name} />
+                </div>
+              )}
+              </>
+              )}
+              {currentFile.analysis && (
+                <ChatPanel messages={currentFile.chat || []} pending={chatPending} onAsk={askQuestion} onCancel={cancelChat} />
+              )}
+              {error && <ErrorBanner error={error} onOpenSettings={() => setShowSettings(true)} onOpenUsage={() => setShowUsage(true)} onDismiss={() => setError(null)} />}
             </div>
           </div>
 
-          {currentFile.type === 'image' && (
+          {currentFile.type === 'image' && !currentFile.pages && (
             <div className="absolute bottom-0 left-0 right-0 p-5 bg-gradient-to-t from-zinc-950 via-zinc-950 to-transparent z-30">
                <form onSubmit={handleEditSubmit} className="max-w-2xl mx-auto relative">
                   <div className="relative flex items-center bg-zinc-900/90 backdrop-blur-xl rounded-2xl border border-zinc-700/50 focus-within:ring-2 focus-within:ring-indigo-500/50 focus-within:border-indigo-500/50 transition-all overflow-hidden shadow-2xl">
                     <input
+                      ref={editInputRef}
                       type="text"
                       value={editPrompt}
                       onChange={(e) => setEditPrompt(e.target.value)}
-                      placeholder="Ask AI to edit..."
+                      placeholder={masking && hasMask ? "Describe the change for the selected area..." : "Ask AI to edit..."}
                       className="w-full bg-transparent border-none text-white pl-5 pr-14 py-4 text-base placeholder-zinc-500 focus:ring-0"
                       disabled={appState === AppState.EDITING}
                     />
@@ -635,51 +1636,236 @@ export default function App() {
 
       {showHistory && (
         <div className="absolute inset-0 z-50 flex">
-           <div className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity" onClick={() => setShowHistory(false)}></div>
+           <div className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity" onClick={() => { setShowHistory(false); setReportSelection(null); }}></div>
            <div className="relative w-full max-w-sm h-full bg-zinc-950 border-r border-zinc-800 flex flex-col shadow-2xl animate-in slide-in-from-left duration-300">
              <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-zinc-950/50 backdrop-blur-md">
                <h2 className="text-xl font-bold text-white flex items-center gap-3">
                  <History className="h-5 w-5 text-indigo-500" />
                  History
                </h2>
-               <button onClick={() => setShowHistory(false)} className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-400 hover:text-white transition-colors">
-                 <X className="h-5 w-5" />
-               </button>
+               <div className="flex items-center gap-1">
+                 {!reportSelection && (
+                   <>
+                     <button onClick={() => setShowUsage(true)} className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-400 hover:text-white transition-colors" title="Usage and costs">
+                       <BarChart3 className="h-4 w-4" />
+                     </button>
+                     <button onClick={() => archiveInputRef.current?.click()} disabled={!!historyTask} className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-400 hover:text-white disabled:opacity-40 transition-colors" title="Import archive">
+                       <ArchiveRestore className="h-4 w-4" />
+                     </button>
+                     {history.length > 0 && (
+                       <button onClick={() => exportHistoryArchive(history)} disabled={!!historyTask} className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-400 hover:text-white disabled:opacity-40 transition-colors" title="Export all as archive">
+                         <Archive className="h-4 w-4" />
+                       </button>
+                     )}
+                   </>
+                 )}
+                 {history.length > 0 && (
+                   <button
+                     onClick={() => setReportSelection(prev => prev ? null : [])}
+                     className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${reportSelection ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-900'}`}
+                   >
+                     {reportSelection ? 'Cancel' : 'Select'}
+                   </button>
+                 )}
+                 <button onClick={() => { setShowHistory(false); setReportSelection(null); }} className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-400 hover:text-white transition-colors">
+                   <X className="h-5 w-5" />
+                 </button>
+               </div>
              </div>
-             <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+             {history.length > 0 && <HistoryFilters filter={historyFilter} tags={historyTags} onChange={setHistoryFilter} />}
+             {pendingCount > 0 && (
+               <div className="flex items-center gap-2 mx-4 mt-3 px-3 py-2 rounded-xl bg-amber-500/10 border border-amber-500/20 text-xs text-amber-300">
+                 <CloudOff className="h-4 w-4 shrink-0" />
+                 <span className="flex-1">{pendingCount} capture{pendingCount === 1 ? '' : 's'} waiting to be analyzed</span>
+                 <button onClick={() => pendingQueueRef.current?.flush()} className="font-bold hover:text-amber-200">Analyze now</button>
+               </div>
+             )}
+             <div className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar">
                {history.length === 0 ? (
                  <div className="flex flex-col items-center justify-center h-64 text-zinc-500 space-y-2">
                    <History className="w-10 h-10 opacity-20" />
                    <p>No captures yet.</p>
                  </div>
+               ) : historyGroups.length === 0 ? (
+                 <div className="flex flex-col items-center justify-center h-48 text-zinc-500 space-y-2">
+                   <Search className="w-8 h-8 opacity-20" />
+                   <p className="text-sm">No captures match these filters.</p>
+                 </div>
                ) : (
-                 history.map((item) => (
-                   <div key={item.id} onClick={() => restoreHistoryItem(item)} className="flex items-start gap-3 p-3 rounded-xl bg-zinc-900/40 border border-zinc-800 hover:bg-zinc-900 hover:border-indigo-500/30 cursor-pointer transition-all group">
-                     <div className="h-16 w-16 bg-black rounded-lg overflow-hidden shrink-0 border border-zinc-800 relative">
-                       {item.type === 'video' ? (
-                         <div className="w-full h-full flex items-center justify-center bg-zinc-800"><Video className="w-6 h-6 text-zinc-500" /></div>
-                       ) : (
-                         <img src={item.preview} className="w-full h-full object-cover" alt="thumbnail" />
-                       )}
-                     </div>
-                     <div className="flex-1 min-w-0 py-1">
-                       <div className="flex justify-between items-center mb-1">
-                          <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider ${item.type === 'video' ? 'bg-red-500/20 text-red-400' : 'bg-indigo-500/20 text-indigo-400'}`}>{item.type}</span>
-                          <span className="text-xs text-zinc-500">{new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                 historyGroups.map(group => (
+                   <div key={group.label} className="space-y-2">
+                     <h3 className="px-1 text-[11px] font-bold uppercase tracking-wider text-zinc-500">{group.label}</h3>
+                     {group.items.map((item) => (
+                       <div
+                         key={item.id}
+                         onClick={() => reportSelection ? toggleReportSelection(item.id) : restoreHistoryItem(item)}
+                         className={`p-3 rounded-xl border cursor-pointer transition-all group ${reportSelection?.includes(item.id) ? 'bg-indigo-500/10 border-indigo-500/60' : 'bg-zinc-900/40 border-zinc-800 hover:bg-zinc-900 hover:border-indigo-500/30'}`}
+                       >
+                         <div className="flex items-start gap-3">
+                           <div className="h-16 w-16 bg-black rounded-lg overflow-hidden shrink-0 border border-zinc-800 relative">
+                             {reportSelection && (
+                               <div className={`absolute top-1 left-1 z-10 h-5 w-5 rounded-md border-2 flex items-center justify-center ${reportSelection.includes(item.id) ? 'bg-indigo-600 border-indigo-500' : 'bg-black/60 border-zinc-400'}`}>
+                                 {reportSelection.includes(item.id) && <Check className="h-3 w-3 text-white" />}
+                               </div>
+                             )}
+                             {item.thumbnail ? (
+                               <img src={item.thumbnail} className="w-full h-full object-cover" alt="thumbnail" />
+                             ) : (
+                               <div className="w-full h-full flex items-center justify-center bg-zinc-800">{item.type === 'video' ? <Video className="w-6 h-6 text-zinc-500" /> : <ImageIcon className="w-6 h-6 text-zinc-500" />}</div>
+                             )}
+                             {item.type === 'video' && item.thumbnail && (
+                               <div className="absolute bottom-1 right-1 p-0.5 rounded bg-black/60"><Video className="w-3 h-3 text-white" /></div>
+                             )}
+                           </div>
+                           <div className="flex-1 min-w-0 py-1">
+                             <div className="flex justify-between items-center mb-1">
+                                <span className="flex items-center gap-1">
+                                  <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider ${item.type === 'video' ? 'bg-red-500/20 text-red-400' : 'bg-indigo-500/20 text-indigo-400'}`}>{item.pages ? 'document' : item.type}</span>
+                                  {item.pending && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider bg-amber-500/20 text-amber-400">pending</span>}
+                                </span>
+                                <span className="text-xs text-zinc-500">{new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                             </div>
+                             <p className="text-sm text-zinc-300 line-clamp-1 font-medium">{item.analysis?.points?.[0] || item.pages?.[0]?.text.split('\n')[0] || item.analysis?.description || (item.pending ? "Waiting to be analyzed" : "Not analyzed")}</p>
+                             {!!item.tags?.length && taggingId !== item.id && (
+                               <div className="flex flex-wrap gap-1 mt-1.5">
+                                 {item.tags.map(tag => <span key={tag} className="text-[11px] text-indigo-300/80">#{tag}</span>)}
+                               </div>
+                             )}
+                           </div>
+                           {!reportSelection && (
+                             <div className="flex flex-col">
+                               <button
+                                 onClick={(e) => toggleFavorite(item, e)}
+                                 className={`p-2 rounded-lg transition-all ${item.favorite ? 'text-amber-400' : 'text-zinc-600 hover:text-amber-400 opacity-0 group-hover:opacity-100'}`}
+                                 title={item.favorite ? "Remove from favorites" : "Add to favorites"}
+                               >
+                                 <Star className={`h-4 w-4 ${item.favorite ? 'fill-amber-400' : ''}`} />
+                               </button>
+                               <button
+                                 onClick={(e) => { e.stopPropagation(); setTaggingId(taggingId === item.id ? null : item.id); }}
+                                 className={`p-2 rounded-lg transition-all ${taggingId === item.id ? 'text-indigo-400' : 'text-zinc-600 hover:text-indigo-400 opacity-0 group-hover:opacity-100'}`}
+                                 title="Edit tags"
+                               >
+                                 <Tag className="h-4 w-4" />
+                               </button>
+                               <button onClick={(e) => deleteHistoryItem(item.id, e)} className="p-2 text-zinc-600 hover:text-red-400 hover:bg-red-400/10 rounded-lg opacity-0 group-hover:opacity-100 transition-all">
+                                 <Trash2 className="h-4 w-4" />
+                               </button>
+                             </div>
+                           )}
+                         </div>
+                         {taggingId === item.id && !reportSelection && (
+                           <div className="mt-3">
+                             <TagEditor tags={item.tags || []} suggestions={historyTags} onChange={(tags) => updateTags(item.id, tags)} />
+                           </div>
+                         )}
                        </div>
-                       <p className="text-sm text-zinc-300 line-clamp-1 font-medium">{item.analysis?.points?.[0] || "Processing..."}</p>
-                     </div>
-                     <button onClick={(e) => deleteHistoryItem(item.id, e)} className="p-2 text-zinc-600 hover:text-red-400 hover:bg-red-400/10 rounded-lg opacity-0 group-hover:opacity-100 transition-all">
-                       <Trash2 className="h-4 w-4" />
-                     </button>
+                     ))}
                    </div>
                  ))
                )}
              </div>
+             {reportSelection && (
+               <div className="p-4 border-t border-zinc-800 space-y-3">
+                 <div className="flex justify-between items-center text-xs text-zinc-400">
+                   <span>{reportSelection.length} selected</span>
+                   <button onClick={() => setReportSelection(reportSelection.length === visibleHistory.length ? [] : visibleHistory.map(i => i.id))} className="font-semibold text-indigo-400 hover:text-indigo-300">
+                     {reportSelection.length === visibleHistory.length ? 'Clear' : 'Select all'}
+                   </button>
+                 </div>
+                 <div className="grid grid-cols-5 gap-2">
+                   {(['pdf', 'md', 'html', 'json'] as ReportFormat[]).map(format => (
+                     <button
+                       key={format}
+                       onClick={() => exportReport(format)}
+                       disabled={!reportSelection.length || !!historyTask}
+                       className="py-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-indigo-600 hover:border-indigo-500 disabled:opacity-40 disabled:hover:bg-zinc-900 text-xs font-bold uppercase text-zinc-300 hover:text-white transition-all"
+                     >
+                       {format}
+                     </button>
+                   ))}
+                   <button
+                     onClick={() => exportHistoryArchive(history.filter(i => reportSelection.includes(i.id)))}
+                     disabled={!reportSelection.length || !!historyTask}
+                     className="py-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-indigo-600 hover:border-indigo-500 disabled:opacity-40 disabled:hover:bg-zinc-900 text-xs font-bold uppercase text-zinc-300 hover:text-white transition-all"
+                     title="Archive with media, for importing on another device"
+                   >
+                     zip
+                   </button>
+                 </div>
+               </div>
+             )}
+             {historyTask && <p className="px-4 py-2 border-t border-zinc-800 text-xs text-zinc-500">{historyTask}</p>}
+             {importReport && (
+               <div className="p-4 border-t border-zinc-800 space-y-2">
+                 <div className="flex items-start justify-between gap-2">
+                   <p className="text-xs text-zinc-300">
+                     Imported {importReport.imported.length} capture{importReport.imported.length === 1 ? '' : 's'}
+                     {importReport.skipped.length > 0 && `, skipped ${importReport.skipped.length}`}.
+                   </p>
+                   <button onClick={() => setImportReport(null)} className="text-zinc-500 hover:text-white"><X className="h-3.5 w-3.5" /></button>
+                 </div>
+                 {importReport.skipped.length > 0 && (
+                   <ul className="max-h-24 overflow-y-auto space-y-0.5 text-[11px] text-zinc-500 custom-scrollbar">
+                     {importReport.skipped.map((s, i) => <li key={i} className="truncate"><span className="font-mono">{s.id}</span> · {s.reason}</li>)}
+                   </ul>
+                 )}
+               </div>
+             )}
+             {(storageUsage || historyError) && (
+               <div className="p-4 border-t border-zinc-800 space-y-2">
+                 {historyError && <p className="text-xs text-red-400">{historyError}</p>}
+                 {storageUsage && storageUsage.quota > 0 && (
+                   <>
+                     <div className="flex justify-between text-xs text-zinc-500">
+                       <span>{history.length} captures</span>
+                       <span>{formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)}</span>
+                     </div>
+                     <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
+                       <div
+                         className={`h-full rounded-full ${storageUsage.usage / storageUsage.quota > 0.9 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                         style={{ width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%` }}
+                       />
+                     </div>
+                     {storageUsage.usage / storageUsage.quota > 0.9 && (
+                       <p className="text-xs text-amber-400">Storage is almost full. Delete older captures to keep saving.</p>
+                     )}
+                   </>
+                 )}
+               </div>
+             )}
            </div>
         </div>
       )}
 
+      {showPresets && (
+        <PresetManager presets={presets} onChange={handlePresetsChange} onClose={() => setShowPresets(false)} />
+      )}
+
+      {showUsage && (
+        <UsageSheet
+          records={usageLog}
+          settings={settings.usage}
+          onSave={handleSaveUsageSettings}
+          onClear={handleClearUsage}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsSheet settings={settings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {showCameraSheet && (
+        <CameraSheet
+          settings={cameraSettings}
+          cameras={cameras}
+          capabilities={capabilities}
+          onChange={updateCameraSettings}
+          onClose={() => setShowCameraSheet(false)}
+        />
+      )}
+
       {showDeveloper && (
         <div className="absolute inset-0 z-50 flex items-center justify-center p-4">
            <div className="absolute inset-0 bg-black/90 backdrop-blur-md" onClick={() => setShowDeveloper(false)}></div>
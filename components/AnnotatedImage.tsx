@@ -0,0 +1,51 @@
+import React from 'react';
+import { BoundingBox, DetectedObject, TextRegion } from '../types';
+
+interface AnnotatedImageProps {
+  src: string;
+  objects?: DetectedObject[];
+  textRegions?: TextRegion[];
+  activeLabel: string | null;
+  onSelectLabel: (label: string | null) => void;
+}
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`
+});
+
+export const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ src, objects = [], textRegions = [], activeLabel, onSelectLabel }) => (
+  <div className="flex justify-center">
+    <div className="relative" onClick={() => onSelectLabel(null)}>
+      <img src={src} alt="Result" className="block max-w-full max-h-[55vh]" />
+      {textRegions.map((region, i) => (
+        <div
+          key={`text-${i}`}
+          title={region.text}
+          className="absolute border border-dashed border-amber-400/70 rounded-sm pointer-events-none"
+          style={boxStyle(region.box)}
+        />
+      ))}
+      {objects.map((object, i) => {
+        const active = activeLabel === object.label;
+        return (
+          <button
+            key={`object-${i}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelectLabel(active ? null : object.label);
+            }}
+            className={`absolute rounded-md border-2 transition-all ${active ? 'border-indigo-400 bg-indigo-500/20 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] z-10' : 'border-white/70 hover:border-indigo-300'}`}
+            style={boxStyle(object.box)}
+          >
+            <span className={`absolute -top-6 left-0 whitespace-nowrap text-[10px] font-bold px-1.5 py-0.5 rounded ${active ? 'bg-indigo-500 text-white' : 'bg-black/70 text-white'}`}>
+              {object.label} {Math.round(object.confidence * 100)}%
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,110 @@
+import React from 'react';
+import { X, Camera, Check, Flashlight, Focus } from 'lucide-react';
+import { CameraCapabilities, CameraFacing, CameraResolution, CameraSettings } from '../types';
+import { RESOLUTIONS } from '../services/camera';
+
+interface CameraSheetProps {
+  settings: CameraSettings;
+  cameras: MediaDeviceInfo[];
+  capabilities: CameraCapabilities | null;
+  onChange: (settings: CameraSettings) => void;
+  onClose: () => void;
+}
+
+const FACINGS: { id: CameraFacing; label: string }[] = [
+  { id: 'environment', label: 'Back' },
+  { id: 'user', label: 'Front' }
+];
+
+export const CameraSheet: React.FC<CameraSheetProps> = ({ settings, cameras, capabilities, onChange, onClose }) => {
+  const update = (patch: Partial<CameraSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-md max-h-[90vh] overflow-y-auto bg-zinc-900 border border-zinc-800 rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300 space-y-6 custom-scrollbar">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-3">
+            <Camera className="h-5 w-5 text-indigo-500" />
+            Camera
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {cameras.length > 1 && (
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Facing</label>
+            <div className="grid grid-cols-2 gap-2">
+              {FACINGS.map(f => (
+                <button
+                  key={f.id}
+                  // Picking a side drops any specific device so the browser chooses one facing that way
+                  onClick={() => update({ facing: f.id, deviceId: null })}
+                  className={`px-3 py-2.5 rounded-xl text-sm font-bold border transition-all ${!settings.deviceId && settings.facing === f.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {cameras.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Device</label>
+            <div className="rounded-xl border border-zinc-800 divide-y divide-zinc-800 overflow-hidden">
+              {cameras.map((camera, i) => (
+                <button
+                  key={camera.deviceId || i}
+                  onClick={() => update({ deviceId: camera.deviceId })}
+                  className="w-full flex items-center gap-3 px-4 py-3 bg-zinc-950 hover:bg-zinc-800/60 text-left text-sm text-zinc-300 transition-colors"
+                >
+                  <span className="flex-1 truncate">{camera.label || `Camera ${i + 1}`}</span>
+                  {settings.deviceId === camera.deviceId && <Check className="h-4 w-4 text-indigo-400" />}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Resolution</label>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(RESOLUTIONS) as CameraResolution[]).map(id => (
+              <button
+                key={id}
+                onClick={() => update({ resolution: id })}
+                className={`px-3 py-2.5 rounded-xl text-sm font-bold border transition-all ${settings.resolution === id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`}
+              >
+                {RESOLUTIONS[id].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500">The camera uses the closest size it supports.</p>
+        </div>
+
+        {capabilities?.torch && (
+          <button
+            onClick={() => update({ torch: !settings.torch })}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-xl bg-zinc-950 border border-zinc-800 text-sm text-zinc-300"
+          >
+            <Flashlight className={`h-4 w-4 ${settings.torch ? 'text-amber-400' : 'text-zinc-500'}`} />
+            <span className="flex-1 text-left">Torch</span>
+            <span className={`w-10 h-6 rounded-full p-1 transition-colors ${settings.torch ? 'bg-indigo-600' : 'bg-zinc-700'}`}>
+              <span className={`block h-4 w-4 rounded-full bg-white transition-transform ${settings.torch ? 'translate-x-4' : ''}`}></span>
+            </span>
+          </button>
+        )}
+
+        {(capabilities?.focus || capabilities?.exposure) && (
+          <p className="flex items-center gap-2 text-xs text-zinc-500">
+            <Focus className="h-4 w-4" />
+            Tap the preview to set {capabilities.focus && capabilities.exposure ? 'focus and exposure' : capabilities.focus ? 'focus' : 'exposure'}.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircle, Send, Sparkles, Square } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  pending: boolean;
+  onAsk: (question: string) => void;
+  onCancel?: () => void; // Stops the pending answer
+}
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, pending, onAsk, onCancel }) => {
+  const [question, setQuestion] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, pending]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || pending) return;
+    onAsk(question.trim());
+    setQuestion("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-indigo-500/10 rounded-lg">
+          <MessageCircle className="h-5 w-5 text-indigo-500" />
+        </div>
+        <h3 className="text-xl font-bold text-white tracking-tight">Ask Follow-up</h3>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-3">
+          {messages.map(m => (
+            <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <p className={`max-w-[85%] px-4 py-2.5 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap ${m.role === 'user' ? 'bg-indigo-600 text-white rounded-br-md' : 'bg-zinc-900/60 border border-zinc-800/60 text-zinc-300 rounded-bl-md'}`}>
+                {m.text}
+              </p>
+            </div>
+          ))}
+          {pending && (
+            <div className="flex justify-start">
+              <div className="px-4 py-2.5 rounded-2xl rounded-bl-md bg-zinc-900/60 border border-zinc-800/60">
+                <Sparkles className="h-4 w-4 text-indigo-400 animate-spin" />
+              </div>
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="relative flex items-center bg-zinc-900/60 rounded-2xl border border-zinc-800 focus-within:ring-2 focus-within:ring-indigo-500/50 transition-all overflow-hidden">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question about this capture..."
+          className="w-full bg-transparent border-none text-white pl-4 pr-12 py-3 text-sm placeholder-zinc-500 focus:ring-0"
+          disabled={pending}
+        />
+        {pending && onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="absolute right-2 p-2 bg-zinc-800 hover:bg-red-600 text-white rounded-xl transition-all"
+            title="Stop"
+          >
+            <Square className="h-4 w-4" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!question.trim() || pending}
+            className="absolute right-2 p-2 bg-zinc-800 hover:bg-indigo-600 disabled:opacity-50 text-white rounded-xl transition-all"
+          >
+            <Send className="h-4 w-4" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
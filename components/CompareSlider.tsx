@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+
+interface CompareSliderProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+export const CompareSlider: React.FC<CompareSliderProps> = ({ before, after, beforeLabel, afterLabel }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative w-full max-h-[55vh] mx-auto overflow-hidden select-none">
+      <img src={after} alt={afterLabel} className="w-full max-h-[55vh] object-contain mx-auto" />
+      <img
+        src={before}
+        alt={beforeLabel}
+        className="absolute inset-0 w-full h-full object-contain"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_8px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${position}%` }} />
+      <span className="absolute top-3 left-3 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-black/60 text-white max-w-[40%] truncate">{beforeLabel}</span>
+      <span className="absolute top-3 right-3 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-indigo-600/80 text-white max-w-[40%] truncate">{afterLabel}</span>
+      <input
+        type="range"
+        min="0"
+        max="100"
+        value={position}
+        onChange={(e) => setPosition(parseFloat(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="Before and after position"
+      />
+    </div>
+  );
+};
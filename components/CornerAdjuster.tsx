@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { Check, Plus, RotateCcw } from 'lucide-react';
+import { Quad } from '../types';
+
+interface CornerAdjusterProps {
+  image: string;
+  initialQuad: Quad;
+  pageCount: number; // Pages already scanned in this session
+  onRetake: () => void;
+  onConfirm: (quad: Quad, finish: boolean) => void;
+}
+
+export const CornerAdjuster: React.FC<CornerAdjusterProps> = ({ image, initialQuad, pageCount, onRetake, onConfirm }) => {
+  const [quad, setQuad] = useState<Quad>(initialQuad);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null || !areaRef.current) return;
+    const rect = areaRef.current.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setQuad(prev => prev.map((p, i) => i === dragging ? { x, y } : p) as Quad);
+  };
+
+  const polygon = quad.map(p => `${p.x * 100},${p.y * 100}`).join(' ');
+
+  return (
+    <div className="absolute inset-0 z-20 bg-black flex flex-col">
+      <div className="p-6 text-center">
+        <p className="text-white font-medium">Drag the corners to the page edges</p>
+        {pageCount > 0 && <p className="text-xs text-zinc-500 mt-1">{pageCount} page{pageCount === 1 ? '' : 's'} scanned</p>}
+      </div>
+      <div className="flex-1 flex items-center justify-center px-4 min-h-0">
+        <div
+          ref={areaRef}
+          className="relative touch-none select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragging(null)}
+          onPointerCancel={() => setDragging(null)}
+        >
+          <img src={image} alt="Scanned frame" className="block max-w-full max-h-[65vh]" draggable={false} />
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+            <polygon points={polygon} fill="rgba(99, 102, 241, 0.2)" stroke="rgb(129, 140, 248)" strokeWidth="0.6" vectorEffect="non-scaling-stroke" />
+          </svg>
+          {quad.map((p, i) => (
+            <div
+              key={i}
+              onPointerDown={(e) => {
+                e.currentTarget.parentElement?.setPointerCapture(e.pointerId);
+                setDragging(i);
+              }}
+              className={`absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-[3px] border-white shadow-lg cursor-grab ${dragging === i ? 'bg-indigo-500 scale-125' : 'bg-indigo-500/60'} transition-transform`}
+              style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+      <div className="p-6 pb-10 flex justify-center gap-3">
+        <button onClick={onRetake} className="flex items-center gap-2 px-5 py-3 rounded-full bg-zinc-900 text-zinc-300 hover:text-white font-medium transition-all">
+          <RotateCcw className="h-4 w-4" /> Retake
+        </button>
+        <button onClick={() => onConfirm(quad, false)} className="flex items-center gap-2 px-5 py-3 rounded-full bg-zinc-800 text-white font-medium hover:bg-zinc-700 transition-all">
+          <Plus className="h-4 w-4" /> Add Page
+        </button>
+        <button onClick={() => onConfirm(quad, true)} className="flex items-center gap-2 px-5 py-3 rounded-full bg-indigo-600 text-white font-bold hover:bg-indigo-500 shadow-lg shadow-indigo-500/20 transition-all">
+          <Check className="h-4 w-4" /> Done
+        </button>
+      </div>
+    </div>
+  );
+};
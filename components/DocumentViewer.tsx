@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { ScanText, FileDown, FileCode, FileText } from 'lucide-react';
+import { DocumentPage } from '../types';
+
+interface DocumentViewerProps {
+  pages: DocumentPage[];
+  pageIndex: number;
+  onPageChange: (index: number) => void;
+  onChangeText: (pageId: string, text: string) => void;
+  onExport: (format: 'txt' | 'md' | 'pdf') => void;
+}
+
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ pages, pageIndex, onPageChange, onChangeText, onExport }) => {
+  const page = pages[Math.min(pageIndex, pages.length - 1)];
+  const [draft, setDraft] = useState(page?.text || '');
+
+  useEffect(() => {
+    setDraft(page?.text || '');
+  }, [page?.id, page?.text]);
+
+  if (!page) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/10 rounded-lg">
+            <ScanText className="h-5 w-5 text-indigo-500" />
+          </div>
+          <h3 className="text-xl font-bold text-white tracking-tight">Extracted Text</h3>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => onExport('txt')} className="p-2.5 bg-zinc-900 hover:bg-zinc-800 rounded-full text-zinc-300 hover:text-white transition-all" title="Export .txt">
+            <FileDown className="h-4 w-4" />
+          </button>
+          <button onClick={() => onExport('md')} className="p-2.5 bg-zinc-900 hover:bg-zinc-800 rounded-full text-zinc-300 hover:text-white transition-all" title="Export Markdown">
+            <FileCode className="h-4 w-4" />
+          </button>
+          <button onClick={() => onExport('pdf')} className="p-2.5 bg-zinc-900 hover:bg-zinc-800 rounded-full text-zinc-300 hover:text-white transition-all" title="Export PDF">
+            <FileText className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {pages.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar">
+          {pages.map((p, i) => (
+            <button
+              key={p.id}
+              onClick={() => onPageChange(i)}
+              className={`shrink-0 rounded-lg overflow-hidden border-2 transition-all ${i === pageIndex ? 'border-indigo-500' : 'border-zinc-800 opacity-60 hover:opacity-100'}`}
+            >
+              <img src={p.image} alt={`Page ${i + 1}`} className="h-16 w-12 object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== page.text && onChangeText(page.id, draft)}
+        rows={12}
+        placeholder="No text found on this page."
+        className="w-full bg-zinc-900/40 border border-zinc-800/60 rounded-2xl p-4 text-sm text-zinc-300 leading-relaxed font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/50 custom-scrollbar"
+      />
+    </div>
+  );
+};
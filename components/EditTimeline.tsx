@@ -0,0 +1,66 @@
+import React from 'react';
+import { Brush, GitBranch } from 'lucide-react';
+import { EditChain } from '../types';
+import { getActivePath } from '../services/editChain';
+
+interface EditTimelineProps {
+  chain: EditChain;
+  original: string;
+  onSelect: (id: string | null) => void;
+  compare: [string | null, string | null] | null;
+  onCompareChange: (compare: [string | null, string | null]) => void;
+}
+
+export const EditTimeline: React.FC<EditTimelineProps> = ({ chain, original, onSelect, compare, onCompareChange }) => {
+  const activePath = getActivePath(chain);
+  const options = [{ id: null, label: 'Original' }, ...chain.steps.map((s, i) => ({ id: s.id, label: `${i + 1}. ${s.prompt}` }))];
+
+  const chip = (id: string | null, image: string, label: string, key: string, masked = false) => {
+    const isCurrent = chain.currentId === id;
+    const onPath = id === null || activePath.includes(id);
+    return (
+      <button
+        key={key}
+        onClick={() => onSelect(id)}
+        title={label}
+        className={`relative shrink-0 w-16 rounded-lg overflow-hidden border-2 transition-all ${isCurrent ? 'border-indigo-500' : onPath ? 'border-zinc-700' : 'border-zinc-800 opacity-50 hover:opacity-100'}`}
+      >
+        <img src={image} alt={label} className="w-16 h-16 object-cover" />
+        {masked && (
+          <div className="absolute top-1 left-1 p-0.5 rounded bg-black/60"><Brush className="w-3 h-3 text-white" /></div>
+        )}
+        {!onPath && (
+          <div className="absolute top-1 right-1 p-0.5 rounded bg-black/60"><GitBranch className="w-3 h-3 text-white" /></div>
+        )}
+        <span className="block text-[10px] text-zinc-400 px-1 py-0.5 truncate bg-zinc-900">{label}</span>
+      </button>
+    );
+  };
+
+  const select = (value: string | null, onChange: (id: string | null) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300"
+    >
+      {options.map(o => <option key={o.id ?? 'original'} value={o.id ?? ''}>{o.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar">
+        {chip(null, original, 'Original', 'original')}
+        {chain.steps.map(step => chip(step.id, step.image, step.prompt, step.id, step.masked))}
+      </div>
+      {compare && (
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          <span>Before</span>
+          {select(compare[0], id => onCompareChange([id, compare[1]]))}
+          <span>After</span>
+          {select(compare[1], id => onCompareChange([compare[0], id]))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { AlertTriangle, CloudOff, FileWarning, Gauge, KeyRound, ShieldAlert, Timer, Wallet, WifiOff, X } from 'lucide-react';
+import { AppError, RecoveryAction, ServiceErrorKind } from '../types';
+
+interface ErrorBannerProps {
+  error: AppError;
+  onOpenSettings: () => void;
+  onOpenUsage: () => void;
+  onDismiss: () => void;
+}
+
+const KIND_ICONS: Record<ServiceErrorKind, React.ElementType> = {
+  auth: KeyRound,
+  'rate-limit': Gauge,
+  safety: ShieldAlert,
+  network: WifiOff,
+  timeout: Timer,
+  malformed: FileWarning,
+  unavailable: CloudOff,
+  budget: Wallet,
+  unknown: AlertTriangle
+};
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  settings: 'Open settings',
+  usage: 'Review usage',
+  retry: 'Try again',
+  rephrase: 'Try something else',
+  none: ''
+};
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onOpenSettings, onOpenUsage, onDismiss }) => {
+  const Icon = error.kind ? KIND_ICONS[error.kind] : AlertTriangle;
+  const onAction = error.action === 'settings' ? onOpenSettings : error.action === 'usage' ? onOpenUsage : error.recover;
+
+  return (
+    <div className="flex items-start gap-3 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-sm">
+      <Icon className="h-5 w-5 text-red-400 shrink-0" />
+      <div className="flex-1 space-y-1">
+        <p className="font-semibold text-red-300">{error.title}</p>
+        {error.detail && <p className="text-red-400/90">{error.detail}</p>}
+        {onAction && error.action !== 'none' && (
+          <button
+            onClick={() => {
+              onDismiss();
+              onAction();
+            }}
+            className="mt-2 px-3 py-1.5 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-xs font-bold text-red-200 transition-colors"
+          >
+            {ACTION_LABELS[error.action]}
+          </button>
+        )}
+      </div>
+      <button onClick={onDismiss} className="p-1 rounded-lg text-red-400/70 hover:text-red-300" aria-label="Dismiss">
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Search, Star, SlidersHorizontal, X } from 'lucide-react';
+import { HistoryFilter, HistoryTypeFilter } from '../types';
+import { EMPTY_FILTER, isFilterActive } from '../services/historySearch';
+
+interface HistoryFiltersProps {
+  filter: HistoryFilter;
+  tags: string[];
+  onChange: (filter: HistoryFilter) => void;
+}
+
+const TYPES: { id: HistoryTypeFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'image', label: 'Photos' },
+  { id: 'video', label: 'Videos' },
+  { id: 'document', label: 'Docs' }
+];
+
+const chipClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-full text-xs font-semibold border transition-all ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`;
+
+const dateClass = "flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 [color-scheme:dark]";
+
+export const HistoryFilters: React.FC<HistoryFiltersProps> = ({ filter, tags, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const update = (patch: Partial<HistoryFilter>) => onChange({ ...filter, ...patch });
+
+  return (
+    <div className="px-4 pt-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-zinc-500" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={e => update({ query: e.target.value })}
+            placeholder="Search descriptions and insights"
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-xl pl-9 pr-3 py-2 text-sm text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+          />
+        </div>
+        <button
+          onClick={() => update({ favoritesOnly: !filter.favoritesOnly })}
+          className={`p-2 rounded-xl border transition-all ${filter.favoritesOnly ? 'bg-amber-400/10 border-amber-400/40 text-amber-400' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`}
+          title="Favorites only"
+        >
+          <Star className={`h-4 w-4 ${filter.favoritesOnly ? 'fill-amber-400' : ''}`} />
+        </button>
+        <button
+          onClick={() => setExpanded(e => !e)}
+          className={`p-2 rounded-xl border transition-all ${expanded ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`}
+          title="More filters"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-1.5">
+            {TYPES.map(t => (
+              <button key={t.id} onClick={() => update({ type: t.id })} className={chipClass(filter.type === t.id)}>{t.label}</button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <input type="date" value={filter.from} max={filter.to || undefined} onChange={e => update({ from: e.target.value })} className={dateClass} aria-label="From date" />
+            <span className="text-xs text-zinc-600">to</span>
+            <input type="date" value={filter.to} min={filter.from || undefined} onChange={e => update({ to: e.target.value })} className={dateClass} aria-label="To date" />
+          </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {tags.map(tag => (
+                <button key={tag} onClick={() => update({ tag: filter.tag === tag ? null : tag })} className={chipClass(filter.tag === tag)}>#{tag}</button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isFilterActive(filter) && (
+        <button onClick={() => onChange(EMPTY_FILTER)} className="flex items-center gap-1 text-xs font-semibold text-indigo-400 hover:text-indigo-300">
+          <X className="h-3 w-3" /> Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
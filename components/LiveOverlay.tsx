@@ -0,0 +1,72 @@
+import React from 'react';
+import { Pin, Check, Sparkles, Radio, Maximize2 } from 'lucide-react';
+import { ImageFile, LiveScanStatus } from '../types';
+
+interface LiveOverlayProps {
+  status: LiveScanStatus;
+  result: ImageFile | null;
+  pinned: boolean;
+  error: string | null;
+  onPin: () => void;
+  onOpen: () => void;
+}
+
+const STATUS_LABELS: Record<LiveScanStatus, string> = {
+  watching: 'Watching for changes',
+  moving: 'Scene changing',
+  settling: 'Hold still',
+  analyzing: 'Analyzing'
+};
+
+export const LiveOverlay: React.FC<LiveOverlayProps> = ({ status, result, pinned, error, onPin, onOpen }) => {
+  return (
+    <div className="absolute left-0 right-0 bottom-44 z-20 px-4 flex flex-col items-center gap-3 pointer-events-none">
+      <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/50 backdrop-blur-md border border-white/10 text-xs font-semibold text-white">
+        {status === 'analyzing' ? (
+          <Sparkles className="h-3.5 w-3.5 text-indigo-400 animate-spin" />
+        ) : (
+          <Radio className={`h-3.5 w-3.5 ${status === 'watching' ? 'text-emerald-400' : 'text-amber-400 animate-pulse'}`} />
+        )}
+        {STATUS_LABELS[status]}
+      </div>
+
+      {error && !result && (
+        <p className="px-4 py-2 rounded-xl bg-red-500/20 border border-red-500/30 text-xs text-red-200 backdrop-blur-md">{error}</p>
+      )}
+
+      {result?.analysis && (
+        <div className="pointer-events-auto w-full max-w-md rounded-2xl bg-zinc-950/80 backdrop-blur-xl border border-white/10 shadow-2xl p-4 space-y-2 animate-in fade-in slide-in-from-bottom-4 duration-300">
+          <div className="flex items-start gap-3">
+            <img src={result.preview} alt="Live frame" className="h-12 w-12 rounded-lg object-cover shrink-0 border border-white/10" />
+            <p className="flex-1 text-sm font-semibold text-white leading-snug line-clamp-3">
+              {result.analysis.description || result.analysis.points?.[0]}
+            </p>
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={onPin}
+                disabled={pinned}
+                className={`p-2 rounded-lg transition-all ${pinned ? 'bg-indigo-600 text-white' : 'bg-zinc-800 hover:bg-indigo-600 text-zinc-300 hover:text-white'}`}
+                title={pinned ? "Saved to history" : "Pin to history"}
+              >
+                {pinned ? <Check className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </button>
+              <button onClick={onOpen} className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 hover:text-white transition-all" title="Open">
+                <Maximize2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+          {!!result.analysis.points?.length && (
+            <ul className="space-y-1 pl-1">
+              {result.analysis.points.map((point, i) => (
+                <li key={i} className="flex gap-2 text-xs text-zinc-300 leading-relaxed">
+                  <span className="text-indigo-400 font-bold">{i + 1}</span>
+                  <span className="line-clamp-2">{point}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { Brush, Lasso, Eraser, Trash2 } from 'lucide-react';
+
+export type MaskTool = 'brush' | 'lasso' | 'eraser';
+
+export interface MaskEditorHandle {
+  /** Black/white PNG data URL at the image's natural size, or null when nothing is selected. */
+  exportMask: () => string | null;
+  clear: () => void;
+}
+
+interface MaskEditorProps {
+  src: string;
+  onChange: (hasMask: boolean) => void;
+}
+
+const MASK_COLOR = 'rgb(99, 102, 241)';
+
+const TOOLS: { id: MaskTool; label: string; icon: React.ReactNode }[] = [
+  { id: 'brush', label: 'Brush', icon: <Brush className="h-4 w-4" /> },
+  { id: 'lasso', label: 'Lasso', icon: <Lasso className="h-4 w-4" /> },
+  { id: 'eraser', label: 'Eraser', icon: <Eraser className="h-4 w-4" /> }
+];
+
+export const MaskEditor = forwardRef<MaskEditorHandle, MaskEditorProps>(({ src, onChange }, ref) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(32);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const pointsRef = useRef<{ x: number; y: number }[]>([]);
+  const hasMaskRef = useRef(false);
+
+  const setHasMask = (value: boolean) => {
+    hasMaskRef.current = value;
+    onChange(value);
+  };
+
+  // Canvases match the image's natural size so the mask lines up at full resolution
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    [maskRef.current, previewRef.current].forEach(canvas => {
+      if (!canvas) return;
+      canvas.width = naturalWidth;
+      canvas.height = naturalHeight;
+    });
+    setHasMask(false);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  const scaledBrush = () => {
+    const canvas = maskRef.current;
+    if (!canvas) return brushSize;
+    return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+  };
+
+  const strokeTo = (point: { x: number; y: number }) => {
+    const ctx = maskRef.current?.getContext('2d');
+    const last = pointsRef.current[pointsRef.current.length - 1];
+    if (!ctx || !last) return;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = scaledBrush();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(last.x, last.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+  };
+
+  const drawLassoPreview = () => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const points = pointsRef.current;
+    if (points.length < 2) return;
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = Math.max(2, scaledBrush() / 8);
+    ctx.setLineDash([ctx.lineWidth * 3, ctx.lineWidth * 2]);
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const point = toCanvasPoint(e);
+    pointsRef.current = [point];
+    if (tool !== 'lasso') strokeTo(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      pointsRef.current.push(point);
+      drawLassoPreview();
+    } else {
+      strokeTo(point);
+      pointsRef.current.push(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    const ctx = maskRef.current?.getContext('2d');
+    const points = pointsRef.current;
+
+    if (tool === 'lasso' && ctx && points.length > 2) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    previewRef.current?.getContext('2d')?.clearRect(0, 0, previewRef.current.width, previewRef.current.height);
+    pointsRef.current = [];
+    setHasMask(tool === 'eraser' ? hasPaint() : true);
+  };
+
+  const hasPaint = () => {
+    const canvas = maskRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return false;
+    const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) return true;
+    }
+    return false;
+  };
+
+  const clear = () => {
+    const canvas = maskRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  useImperativeHandle(ref, () => ({
+    exportMask: () => {
+      const source = maskRef.current;
+      if (!source || !hasMaskRef.current) return null;
+      const canvas = document.createElement('canvas');
+      canvas.width = source.width;
+      canvas.height = source.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(source, 0, 0);
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      return canvas.toDataURL('image/png');
+    },
+    clear
+  }));
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="relative">
+        <img src={src} alt="Mask source" onLoad={handleImageLoad} className="block max-w-full max-h-[55vh]" draggable={false} />
+        <canvas ref={maskRef} className="absolute inset-0 w-full h-full opacity-50 pointer-events-none" />
+        <canvas
+          ref={previewRef}
+          className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+      <div className="flex items-center gap-2 py-3 px-4 w-full max-w-2xl">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            title={t.label}
+            className={`p-2.5 rounded-full transition-all ${tool === t.id ? 'bg-indigo-600 text-white' : 'bg-zinc-900 text-zinc-400 hover:text-white'}`}
+          >
+            {t.icon}
+          </button>
+        ))}
+        <input
+          type="range"
+          min="4"
+          max="96"
+          value={brushSize}
+          onChange={(e) => setBrushSize(parseFloat(e.target.value))}
+          disabled={tool === 'lasso'}
+          className="flex-1 h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:opacity-30"
+          aria-label="Brush size"
+        />
+        <button onClick={clear} title="Clear mask" className="p-2.5 rounded-full bg-zinc-900 text-zinc-400 hover:text-red-400 transition-all">
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+});
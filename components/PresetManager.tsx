@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { X, Wand2, Plus, Trash2, Copy, ChevronLeft } from 'lucide-react';
+import { AnalysisPreset, PresetField, PresetFieldType } from '../types';
+import { createFileId } from '../services/media';
+import { isValidFieldName } from '../services/presets';
+
+interface PresetManagerProps {
+  presets: AnalysisPreset[];
+  onChange: (presets: AnalysisPreset[]) => void; // Custom presets only
+  onClose: () => void;
+}
+
+const FIELD_TYPES: { id: PresetFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'boolean', label: 'Yes/No' },
+  { id: 'list', label: 'List' }
+];
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-2.5 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const emptyPreset = (): AnalysisPreset => ({ id: createFileId(), name: '', instruction: '', fields: [] });
+
+const validate = (preset: AnalysisPreset) => {
+  if (!preset.name.trim()) return "Give the preset a name.";
+  if (!preset.instruction.trim() && !preset.fields.length) return "Add an instruction or at least one output field.";
+  const names = preset.fields.map(f => f.name.trim());
+  if (names.some(n => !isValidFieldName(n))) return "Field names must start with a letter and use only letters, numbers and underscores.";
+  if (new Set(names).size !== names.length) return "Field names must be unique.";
+  return null;
+};
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ presets, onChange, onClose }) => {
+  const [draft, setDraft] = useState<AnalysisPreset | null>(null);
+  const custom = presets.filter(p => !p.builtIn);
+  const error = draft && validate(draft);
+
+  const updateField = (index: number, patch: Partial<PresetField>) => {
+    setDraft(prev => prev && { ...prev, fields: prev.fields.map((f, i) => i === index ? { ...f, ...patch } : f) });
+  };
+
+  const save = () => {
+    if (!draft || error) return;
+    const cleaned = { ...draft, name: draft.name.trim(), instruction: draft.instruction.trim(), fields: draft.fields.map(f => ({ ...f, name: f.name.trim() })) };
+    const exists = custom.some(p => p.id === cleaned.id);
+    onChange(exists ? custom.map(p => p.id === cleaned.id ? cleaned : p) : [...custom, cleaned]);
+    setDraft(null);
+  };
+
+  const duplicate = (preset: AnalysisPreset) => {
+    setDraft({ ...preset, id: createFileId(), name: `${preset.name} copy`, fields: preset.fields.map(f => ({ ...f })), builtIn: false });
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-md max-h-[90vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-t-3xl sm:rounded-3xl shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-3">
+            {draft ? (
+              <button onClick={() => setDraft(null)} className="p-1 -ml-1 rounded-lg text-zinc-400 hover:text-white"><ChevronLeft className="h-5 w-5" /></button>
+            ) : (
+              <Wand2 className="h-5 w-5 text-indigo-500" />
+            )}
+            {draft ? (custom.some(p => p.id === draft.id) ? 'Edit preset' : 'New preset') : 'Analysis presets'}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {!draft ? (
+          <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-2 custom-scrollbar">
+            {presets.map(preset => (
+              <div key={preset.id} className="flex items-start gap-3 p-3 rounded-xl bg-zinc-950/60 border border-zinc-800">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-white">
+                    {preset.name}
+                    {preset.builtIn && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider text-zinc-500">Built-in</span>}
+                  </p>
+                  {preset.instruction && <p className="text-xs text-zinc-500 line-clamp-2">{preset.instruction}</p>}
+                  {preset.fields.length > 0 && <p className="text-[11px] font-mono text-zinc-600 truncate mt-1">{preset.fields.map(f => f.name).join(', ')}</p>}
+                </div>
+                {preset.builtIn ? (
+                  <button onClick={() => duplicate(preset)} className="p-2 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800" title="Duplicate">
+                    <Copy className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <>
+                    <button onClick={() => setDraft(preset)} className="px-2 py-1.5 rounded-lg text-xs font-semibold text-zinc-400 hover:text-white hover:bg-zinc-800">Edit</button>
+                    <button onClick={() => onChange(custom.filter(p => p.id !== preset.id))} className="p-2 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-red-400/10" title="Delete">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+            <button onClick={() => setDraft(emptyPreset())} className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-zinc-700 text-sm font-semibold text-zinc-400 hover:text-white hover:border-indigo-500 transition-all">
+              <Plus className="h-4 w-4" /> New preset
+            </button>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-4 custom-scrollbar">
+            <input className={inputClass} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Name, e.g. Wine label" />
+            <textarea
+              className={`${inputClass} min-h-[5rem] resize-y`}
+              value={draft.instruction}
+              onChange={e => setDraft({ ...draft, instruction: e.target.value })}
+              placeholder="Instruction, e.g. Identify the wine, vintage and region, and suggest food pairings."
+            />
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Output fields (optional)</label>
+              {draft.fields.map((field, i) => (
+                <div key={i} className="p-3 rounded-xl bg-zinc-950/60 border border-zinc-800 space-y-2">
+                  <div className="flex gap-2">
+                    <input className={`${inputClass} font-mono`} value={field.name} onChange={e => updateField(i, { name: e.target.value })} placeholder="field_name" />
+                    <select className={`${inputClass} w-32`} value={field.type} onChange={e => updateField(i, { type: e.target.value as PresetFieldType })}>
+                      {FIELD_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                    </select>
+                    <button onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, j) => j !== i) })} className="p-2 rounded-lg text-zinc-500 hover:text-red-400" aria-label="Remove field">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <input className={inputClass} value={field.description} onChange={e => updateField(i, { description: e.target.value })} placeholder="What the model should put here" />
+                </div>
+              ))}
+              <button
+                onClick={() => setDraft({ ...draft, fields: [...draft.fields, { name: '', type: 'text', description: '' }] })}
+                className="flex items-center gap-1.5 text-sm font-semibold text-indigo-400 hover:text-indigo-300"
+              >
+                <Plus className="h-4 w-4" /> Add field
+              </button>
+            </div>
+
+            {error && <p className="text-xs text-amber-400">{error}</p>}
+            <button
+              onClick={save}
+              disabled={!!error}
+              className="w-full py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold transition-all"
+            >
+              Save preset
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, SlidersHorizontal, Wand2 } from 'lucide-react';
+import { AnalysisPreset } from '../types';
+
+interface PresetPickerProps {
+  presets: AnalysisPreset[];
+  selectedId: string;
+  onSelect: (preset: AnalysisPreset) => void;
+  onManage?: () => void;
+  label?: string; // Replaces the selected preset's name on the button
+  align?: 'left' | 'right';
+}
+
+export const PresetPicker: React.FC<PresetPickerProps> = ({ presets, selectedId, onSelect, onManage, label, align = 'left' }) => {
+  const [open, setOpen] = useState(false);
+  const selected = presets.find(p => p.id === selectedId);
+
+  const choose = (preset: AnalysisPreset) => {
+    setOpen(false);
+    onSelect(preset);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-1.5 px-4 py-2.5 bg-black/40 backdrop-blur-xl rounded-full border border-white/10 text-sm font-bold text-white hover:bg-zinc-800/60 transition-all shadow-lg"
+      >
+        <Wand2 className="h-4 w-4 text-indigo-400" />
+        <span className="max-w-[8rem] truncate">{label || selected?.name || 'General'}</span>
+        <ChevronDown className="h-3.5 w-3.5 text-zinc-400" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className={`absolute z-50 top-full mt-2 w-60 bg-zinc-900/95 backdrop-blur-xl border border-zinc-800 rounded-2xl shadow-2xl p-1.5 animate-in fade-in zoom-in-95 duration-150 ${align === 'right' ? 'right-0' : 'left-0'}`}>
+            <div className="max-h-72 overflow-y-auto custom-scrollbar">
+              {presets.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => choose(preset)}
+                  className="w-full flex items-start gap-2 px-3 py-2 rounded-xl text-left hover:bg-zinc-800 transition-colors"
+                >
+                  <Check className={`h-4 w-4 mt-0.5 shrink-0 ${preset.id === selectedId ? 'text-indigo-400' : 'text-transparent'}`} />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-semibold text-white truncate">{preset.name}</span>
+                    {preset.instruction && <span className="block text-xs text-zinc-500 line-clamp-2">{preset.instruction}</span>}
+                  </span>
+                </button>
+              ))}
+            </div>
+            {onManage && (
+              <button
+                onClick={() => { setOpen(false); onManage(); }}
+                className="w-full flex items-center gap-2 px-3 py-2 mt-1 border-t border-zinc-800 text-sm text-zinc-400 hover:text-white transition-colors"
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+                Manage presets
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Layers, RotateCcw, X, ChevronDown, ChevronUp, Check, AlertCircle } from 'lucide-react';
+import { QueueJob } from '../types';
+
+interface QueuePanelProps {
+  jobs: QueueJob[];
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({ jobs, onRetry, onRemove, onClearFinished }) => {
+  const [expanded, setExpanded] = useState(true);
+  if (jobs.length === 0) return null;
+
+  const done = jobs.filter(j => j.status === 'done').length;
+  const failed = jobs.filter(j => j.status === 'failed').length;
+  const busy = jobs.some(j => j.status === 'running' || j.status === 'queued');
+
+  return (
+    <div className="fixed top-24 right-4 z-40 w-72 bg-zinc-900/95 backdrop-blur-xl border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden animate-in slide-in-from-right duration-300">
+      <button onClick={() => setExpanded(e => !e)} className="w-full flex items-center gap-3 px-4 py-3 text-left">
+        <Layers className={`h-4 w-4 text-indigo-400 ${busy ? 'animate-pulse' : ''}`} />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold text-white">Import queue</p>
+          <p className="text-xs text-zinc-500">{done} of {jobs.length} analyzed{failed ? ` · ${failed} failed` : ''}</p>
+        </div>
+        {expanded ? <ChevronUp className="h-4 w-4 text-zinc-500" /> : <ChevronDown className="h-4 w-4 text-zinc-500" />}
+      </button>
+
+      {expanded && (
+        <>
+          <div className="max-h-72 overflow-y-auto px-3 pb-2 space-y-2 custom-scrollbar">
+            {jobs.map(job => (
+              <div key={job.id} className="px-3 py-2 rounded-xl bg-zinc-950/60 border border-zinc-800/60">
+                <div className="flex items-center gap-2">
+                  {job.status === 'done' && <Check className="h-3.5 w-3.5 text-emerald-400 shrink-0" />}
+                  {job.status === 'failed' && <AlertCircle className="h-3.5 w-3.5 text-red-400 shrink-0" />}
+                  <span className="flex-1 text-xs text-zinc-300 truncate" title={job.error || job.name}>{job.name}</span>
+                  {job.status === 'failed' && (
+                    <button onClick={() => onRetry(job.id)} className="p-1 text-zinc-400 hover:text-white" title="Retry">
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  {job.status !== 'running' && (
+                    <button onClick={() => onRemove(job.id)} className="p-1 text-zinc-600 hover:text-red-400" title="Remove">
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+                {(job.status === 'running' || job.status === 'queued') && (
+                  <div className="mt-2 h-1 w-full bg-zinc-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full transition-all duration-300" style={{ width: `${job.progress * 100}%` }} />
+                  </div>
+                )}
+                {job.status === 'failed' && job.error && <p className="mt-1 text-[10px] text-red-400/80 line-clamp-2">{job.error}</p>}
+              </div>
+            ))}
+          </div>
+          {done > 0 && (
+            <button onClick={onClearFinished} className="w-full py-2 text-xs text-zinc-500 hover:text-white border-t border-zinc-800 transition-colors">
+              Clear finished
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { X, Settings, PlugZap, CheckCircle2, AlertTriangle, Loader2 } from 'lucide-react';
+import { ProviderKind, AppSettings, ImageCodec } from '../types';
+import { createProvider } from '../services/providers';
+import { GEMINI_ANALYSIS_MODELS, GEMINI_EDIT_MODELS } from '../services/providers/gemini';
+import { validateSettings } from '../services/settings';
+import { abortReason, startRequest } from '../services/requests';
+import { classifyError } from '../services/errors';
+
+interface SettingsSheetProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: ProviderKind; label: string; hint: string }[] = [
+  { id: 'gemini', label: 'Gemini', hint: 'Google Gemini API' },
+  { id: 'http', label: 'HTTP', hint: 'OpenAI-compatible or Ollama server' },
+  { id: 'proxy', label: 'Proxy', hint: 'Team proxy server holding the provider key' },
+  { id: 'mock', label: 'Mock', hint: 'Offline fixtures, no network' }
+];
+
+const MAX_DIMENSIONS = [1024, 1600, 2048, 4096];
+
+const TIMEOUTS = [30, 60, 120, 300]; // Seconds
+
+const MAX_DURATIONS = [15, 30, 60, 120, 300]; // Seconds
+
+const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Japanese', 'Korean', 'Chinese', 'Hindi', 'Arabic'];
+
+type ConnectionTest = { status: 'testing' } | { status: 'ok' } | { status: 'failed'; message: string };
+
+const CODECS: { id: ImageCodec; label: string }[] = [
+  { id: 'image/jpeg', label: 'JPEG' },
+  { id: 'image/webp', label: 'WebP' },
+  { id: 'image/png', label: 'PNG' }
+];
+
+const formatSeconds = (t: number) => t < 60 ? `${t} seconds` : `${t / 60} minute${t === 60 ? '' : 's'}`;
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-2.5 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+export const SettingsSheet: React.FC<SettingsSheetProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraftState] = useState<AppSettings>(settings);
+  const [test, setTest] = useState<ConnectionTest | null>(null);
+  const error = validateSettings(draft);
+
+  // Any change makes an earlier test result meaningless
+  const setDraft = (update: (prev: AppSettings) => AppSettings) => {
+    setDraftState(update);
+    setTest(null);
+  };
+
+  const updateGemini = (field: keyof AppSettings['gemini'], value: string) => {
+    setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, [field]: value } }));
+  };
+
+  const updateHttp = (field: keyof AppSettings['http'], value: string) => {
+    setDraft(prev => ({ ...prev, http: { ...prev.http, [field]: value } }));
+  };
+
+  const updateProxy = (field: keyof AppSettings['proxy'], value: string) => {
+    setDraft(prev => ({ ...prev, proxy: { ...prev.proxy, [field]: value } }));
+  };
+
+  const updatePreprocess = (patch: Partial<AppSettings['preprocess']>) => {
+    setDraft(prev => ({ ...prev, preprocess: { ...prev.preprocess, ...patch } }));
+  };
+
+  const updateVideo = (patch: Partial<AppSettings['video']>) => {
+    setDraft(prev => ({ ...prev, video: { ...prev.video, ...patch } }));
+  };
+
+  const updateGeneration = (patch: Partial<AppSettings['generation']>) => {
+    setDraft(prev => ({ ...prev, generation: { ...prev.generation, ...patch } }));
+  };
+
+  const testConnection = async () => {
+    setTest({ status: 'testing' });
+    const request = startRequest(draft.requestTimeout);
+    try {
+      await createProvider(draft).testConnection({ signal: request.signal });
+      setTest({ status: 'ok' });
+    } catch (err) {
+      setTest({ status: 'failed', message: classifyError(abortReason(request.signal) || err).message });
+    } finally {
+      request.done();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar bg-zinc-900 border border-zinc-800 rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-3">
+            <Settings className="h-5 w-5 text-indigo-500" />
+            Settings
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Vision provider</label>
+          <div className="grid grid-cols-4 gap-2">
+            {PROVIDERS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setDraft(prev => ({ ...prev, provider: p.id }))}
+                className={`px-3 py-2.5 rounded-xl text-sm font-bold border transition-all ${draft.provider === p.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500">{PROVIDERS.find(p => p.id === draft.provider)?.hint}</p>
+        </div>
+
+        {draft.provider === 'gemini' && (
+          <div className="space-y-3">
+            <input className={inputClass} type="password" autoComplete="off" value={draft.gemini.apiKey} onChange={e => updateGemini('apiKey', e.target.value)} placeholder="Gemini API key" />
+            <div className="grid grid-cols-2 gap-2">
+              <select className={inputClass} value={draft.gemini.analysisModel} onChange={e => updateGemini('analysisModel', e.target.value)} aria-label="Analysis model">
+                {GEMINI_ANALYSIS_MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+              <select className={inputClass} value={draft.gemini.editModel} onChange={e => updateGemini('editModel', e.target.value)} aria-label="Edit model">
+                {GEMINI_EDIT_MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+            <p className="text-xs text-zinc-500">The key is stored on this device only and sent nowhere but the Gemini API.</p>
+          </div>
+        )}
+
+        {draft.provider === 'http' && (
+          <div className="space-y-3">
+            <input className={inputClass} value={draft.http.baseUrl} onChange={e => updateHttp('baseUrl', e.target.value)} placeholder="Base URL (http://localhost:11434/v1)" />
+            <input className={inputClass} value={draft.http.model} onChange={e => updateHttp('model', e.target.value)} placeholder="Vision model" />
+            <input className={inputClass} value={draft.http.editModel} onChange={e => updateHttp('editModel', e.target.value)} placeholder="Edit model (optional)" />
+            <input className={inputClass} type="password" value={draft.http.apiKey} onChange={e => updateHttp('apiKey', e.target.value)} placeholder="API key (optional)" />
+          </div>
+        )}
+
+        {draft.provider === 'proxy' && (
+          <div className="space-y-3">
+            <input className={inputClass} value={draft.proxy.baseUrl} onChange={e => updateProxy('baseUrl', e.target.value)} placeholder="Proxy URL (http://localhost:8787)" />
+            <input className={inputClass} type="password" autoComplete="off" value={draft.proxy.token} onChange={e => updateProxy('token', e.target.value)} placeholder="Access token" />
+            <p className="text-xs text-zinc-500">Ask whoever runs the proxy for a token. The provider key stays on the server.</p>
+          </div>
+        )}
+
+        {draft.provider !== 'mock' && (
+          <div className="space-y-3">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Responses</label>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-zinc-400 w-24">Temperature</span>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={draft.generation.temperature}
+                onChange={e => updateGeneration({ temperature: Number(e.target.value) })}
+                className="flex-1 accent-indigo-500"
+              />
+              <span className="text-xs font-mono text-zinc-400 w-10 text-right">{draft.generation.temperature.toFixed(1)}</span>
+            </div>
+            <input
+              className={inputClass}
+              list="response-languages"
+              value={draft.generation.language}
+              onChange={e => updateGeneration({ language: e.target.value })}
+              placeholder="Response language (model default)"
+            />
+            <datalist id="response-languages">
+              {LANGUAGES.map(l => <option key={l} value={l} />)}
+            </datalist>
+            <p className="text-xs text-zinc-500">Lower temperatures give steadier, more literal answers. Document text is always transcribed as written.</p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Image upload</label>
+          <div className="grid grid-cols-2 gap-2">
+            <select className={inputClass} value={draft.preprocess.maxDimension} onChange={e => updatePreprocess({ maxDimension: Number(e.target.value) })}>
+              {MAX_DIMENSIONS.map(d => <option key={d} value={d}>Max {d}px</option>)}
+            </select>
+            <select className={inputClass} value={draft.preprocess.codec} onChange={e => updatePreprocess({ codec: e.target.value as ImageCodec })}>
+              {CODECS.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+          </div>
+          {draft.preprocess.codec !== 'image/png' && (
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-zinc-500 w-16">Quality</span>
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.05}
+                value={draft.preprocess.quality}
+                onChange={e => updatePreprocess({ quality: Number(e.target.value) })}
+                className="flex-1 accent-indigo-500"
+              />
+              <span className="text-xs font-mono text-zinc-400 w-10 text-right">{Math.round(draft.preprocess.quality * 100)}%</span>
+            </div>
+          )}
+          <p className="text-xs text-zinc-500">Photos are rotated upright, resized and re-encoded before upload. Location and other metadata are removed.</p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Request timeout</label>
+          <select className={inputClass} value={draft.requestTimeout} onChange={e => setDraft(prev => ({ ...prev, requestTimeout: Number(e.target.value) }))}>
+            {TIMEOUTS.map(t => <option key={t} value={t}>{formatSeconds(t)}</option>)}
+          </select>
+          <p className="text-xs text-zinc-500">Requests that take longer are abandoned. Long videos may need more time.</p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Video</label>
+          <select className={inputClass} value={draft.video.maxDuration} onChange={e => updateVideo({ maxDuration: Number(e.target.value) })}>
+            {MAX_DURATIONS.map(t => <option key={t} value={t}>Stop recording after {formatSeconds(t)}</option>)}
+          </select>
+          <input
+            className={inputClass}
+            value={draft.video.uploadEndpoint}
+            onChange={e => updateVideo({ uploadEndpoint: e.target.value.trim() })}
+            placeholder="Upload endpoint for large clips (optional)"
+          />
+          <p className="text-xs text-zinc-500">Clips over 14 MB are uploaded in resumable chunks. Leave the endpoint empty to use Gemini's files API; the HTTP provider then sends them inline.</p>
+        </div>
+
+        {error && <p className="text-xs text-amber-400">{error}</p>}
+        {test && (
+          <p className={`flex items-start gap-2 text-xs ${test.status === 'failed' ? 'text-red-400' : test.status === 'ok' ? 'text-emerald-400' : 'text-zinc-400'}`}>
+            {test.status === 'testing' && <><Loader2 className="h-4 w-4 shrink-0 animate-spin" /> Testing connection...</>}
+            {test.status === 'ok' && <><CheckCircle2 className="h-4 w-4 shrink-0" /> Connected. The provider accepted these settings.</>}
+            {test.status === 'failed' && <><AlertTriangle className="h-4 w-4 shrink-0" /> {test.message}</>}
+          </p>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={testConnection}
+            disabled={!!error || test?.status === 'testing'}
+            className="flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white font-bold transition-all"
+          >
+            <PlugZap className="h-4 w-4" /> Test
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!!error}
+            className="flex-1 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
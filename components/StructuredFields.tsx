@@ -0,0 +1,45 @@
+import React from 'react';
+import { ListChecks } from 'lucide-react';
+import { PresetField, StructuredValue } from '../types';
+import { formatFieldName, formatFieldValue } from '../services/format';
+
+interface StructuredFieldsProps {
+  values: Record<string, StructuredValue>;
+  fields?: PresetField[]; // Keeps the preset's order when known
+  title?: string;
+}
+
+export const StructuredFields: React.FC<StructuredFieldsProps> = ({ values, fields, title = "Details" }) => {
+  const keys = [
+    ...(fields || []).map(f => f.name).filter(name => name in values),
+    ...Object.keys(values).filter(name => !fields?.some(f => f.name === name))
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-indigo-500/10 rounded-lg">
+          <ListChecks className="h-5 w-5 text-indigo-500" />
+        </div>
+        <h3 className="text-xl font-bold text-white tracking-tight">{title}</h3>
+      </div>
+      <dl className="rounded-2xl border border-zinc-800/60 bg-zinc-900/40 divide-y divide-zinc-800/60 overflow-hidden">
+        {keys.map(key => {
+          const value = values[key];
+          return (
+            <div key={key} className="flex gap-4 px-4 py-3">
+              <dt className="w-1/3 shrink-0 text-xs font-semibold uppercase tracking-wider text-zinc-500 pt-0.5">{formatFieldName(key)}</dt>
+              <dd className="flex-1 text-sm text-zinc-200">
+                {Array.isArray(value) ? (
+                  <ul className="list-disc list-inside space-y-0.5">{value.map((v, i) => <li key={i}>{v}</li>)}</ul>
+                ) : (
+                  <span className={typeof value === 'boolean' ? (value ? 'text-emerald-400' : 'text-red-400') : ''}>{formatFieldValue(value)}</span>
+                )}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTag } from '../services/historySearch';
+
+interface TagEditorProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, suggestions, onChange }) => {
+  const [value, setValue] = useState("");
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setValue("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(value);
+    } else if (e.key === 'Backspace' && !value && tags.length) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const unused = suggestions.filter(s => !tags.includes(s)).slice(0, 6);
+
+  return (
+    <div className="space-y-2" onClick={e => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-1.5 p-2 bg-zinc-950 border border-zinc-800 rounded-lg focus-within:ring-2 focus-within:ring-indigo-500/50">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-indigo-500/20 text-xs text-indigo-300">
+            #{tag}
+            <button onClick={() => onChange(tags.filter(t => t !== tag))} className="p-0.5 rounded-full hover:bg-indigo-500/30" aria-label={`Remove ${tag}`}>
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          autoFocus
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => value.trim() && addTag(value)}
+          placeholder={tags.length ? "" : "Add a tag"}
+          className="flex-1 min-w-[5rem] bg-transparent border-none p-0 text-xs text-white placeholder-zinc-600 focus:ring-0 focus:outline-none"
+        />
+      </div>
+      {unused.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {unused.map(tag => (
+            <button key={tag} onClick={() => addTag(tag)} className="px-2 py-0.5 rounded-full border border-zinc-800 text-[11px] text-zinc-500 hover:text-white hover:border-zinc-600">
+              +{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useEffect } from 'react';
+import { Info } from 'lucide-react';
+
+interface ToastProps {
+  message: string;
+  onDismiss: () => void;
+  duration?: number; // ms
+}
+
+// Short-lived notices that are not errors, e.g. "Copied to clipboard"
+export const Toast: React.FC<ToastProps> = ({ message, onDismiss, duration = 2500 }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, duration);
+    return () => window.clearTimeout(timer);
+  }, [message, duration]);
+
+  return (
+    <div
+      role="status"
+      className="fixed top-6 left-1/2 -translate-x-1/2 z-[90] flex items-center gap-2 px-4 py-2.5 rounded-full bg-zinc-900/90 border border-zinc-700 backdrop-blur-md shadow-xl text-sm font-medium text-white animate-in fade-in slide-in-from-top-2 duration-300"
+    >
+      <Info className="h-4 w-4 text-indigo-400" />
+      {message}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { X, BarChart3, Plus, Trash2 } from 'lucide-react';
+import { ModelPrice, UsageRecord, UsageSettings } from '../types';
+import { OPERATION_LABELS, UsageTotals, checkBudget, formatCost, summarizeUsage } from '../services/usage';
+
+interface UsageSheetProps {
+  records: UsageRecord[];
+  settings: UsageSettings;
+  onSave: (settings: UsageSettings) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-2.5 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000
+  ? `${(tokens / 1_000_000).toFixed(1)}M`
+  : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const formatDay = (key: string) => new Date(`${key}T00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Price rows are edited as strings so partly typed numbers survive
+interface PriceRow {
+  model: string;
+  input: string;
+  output: string;
+}
+
+const toRows = (prices: Record<string, ModelPrice>): PriceRow[] =>
+  Object.entries(prices).map(([model, p]) => ({ model, input: String(p.input), output: String(p.output) }));
+
+const validate = (rows: PriceRow[], daily: number, monthly: number) => {
+  if (!(daily >= 0 && monthly >= 0)) return "Budgets can't be negative.";
+  const models = rows.map(r => r.model.trim());
+  if (models.some(m => !m)) return "Every price needs a model name.";
+  if (new Set(models).size !== models.length) return "Each model can only have one price.";
+  if (rows.some(r => r.input.trim() === '' || r.output.trim() === '' || !(Number(r.input) >= 0 && Number(r.output) >= 0))) return "Prices must be zero or more.";
+  return null;
+};
+
+const TotalsTable: React.FC<{ title: string; rows: UsageTotals[]; label?: (key: string) => string }> = ({ title, rows, label = key => key }) => (
+  <div className="space-y-2">
+    <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">{title}</label>
+    <div className="rounded-xl border border-zinc-800 overflow-hidden">
+      <table className="w-full text-xs">
+        <thead className="bg-zinc-950/60 text-zinc-500">
+          <tr>
+            <th className="text-left font-semibold px-3 py-2"></th>
+            <th className="text-right font-semibold px-3 py-2">Calls</th>
+            <th className="text-right font-semibold px-3 py-2">Tokens in / out</th>
+            <th className="text-right font-semibold px-3 py-2">Avg time</th>
+            <th className="text-right font-semibold px-3 py-2">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-800 text-zinc-300">
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td className="px-3 py-2 text-white truncate max-w-[8rem]">{label(row.key)}</td>
+              <td className="px-3 py-2 text-right font-mono">{row.requests}</td>
+              <td className="px-3 py-2 text-right font-mono">{formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}</td>
+              <td className="px-3 py-2 text-right font-mono">{(row.averageLatency / 1000).toFixed(1)}s</td>
+              <td className="px-3 py-2 text-right font-mono">{formatCost(row.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export const UsageSheet: React.FC<UsageSheetProps> = ({ records, settings, onSave, onClear, onClose }) => {
+  const [rows, setRows] = useState<PriceRow[]>(() => toRows(settings.prices));
+  const [dailyBudget, setDailyBudget] = useState(String(settings.dailyBudget || ''));
+  const [monthlyBudget, setMonthlyBudget] = useState(String(settings.monthlyBudget || ''));
+  const summary = useMemo(() => summarizeUsage(records, settings.prices), [records, settings.prices]);
+  const today = checkBudget(records, { ...settings, monthlyBudget: 0 });
+  const month = checkBudget(records, { ...settings, dailyBudget: 0 });
+  const daily = Number(dailyBudget || 0);
+  const monthly = Number(monthlyBudget || 0);
+  const error = validate(rows, daily, monthly);
+
+  const updateRow = (index: number, patch: Partial<PriceRow>) => {
+    setRows(prev => prev.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const save = () => {
+    if (error) return;
+    const prices = Object.fromEntries(rows.map(r => [r.model.trim(), { input: Number(r.input), output: Number(r.output) }]));
+    onSave({ prices, dailyBudget: daily, monthlyBudget: monthly });
+  };
+
+  const budgetBar = (label: string, check: typeof today) => check.limit > 0 && (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-zinc-400">{label}</span>
+        <span className={check.status === 'exceeded' ? 'text-red-400' : check.status === 'warning' ? 'text-amber-400' : 'text-zinc-400'}>
+          {formatCost(check.spent)} of {formatCost(check.limit)}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+        <div
+          className={`h-full ${check.status === 'exceeded' ? 'bg-red-500' : check.status === 'warning' ? 'bg-amber-500' : 'bg-indigo-500'}`}
+          style={{ width: `${Math.min(100, (check.spent / check.limit) * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg max-h-[90vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-t-3xl sm:rounded-3xl shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h2 className="text-xl font-bold text-white flex items-center gap-3">
+            <BarChart3 className="h-5 w-5 text-indigo-500" />
+            Usage
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-6 custom-scrollbar">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-3 rounded-xl bg-zinc-950/60 border border-zinc-800">
+              <p className="text-lg font-bold text-white">{summary.total?.requests ?? 0}</p>
+              <p className="text-[10px] uppercase tracking-wider text-zinc-500">Calls</p>
+            </div>
+            <div className="p-3 rounded-xl bg-zinc-950/60 border border-zinc-800">
+              <p className="text-lg font-bold text-white">{formatTokens((summary.total?.inputTokens ?? 0) + (summary.total?.outputTokens ?? 0))}</p>
+              <p className="text-[10px] uppercase tracking-wider text-zinc-500">Tokens</p>
+            </div>
+            <div className="p-3 rounded-xl bg-zinc-950/60 border border-zinc-800">
+              <p className="text-lg font-bold text-white">{formatCost(summary.total?.cost ?? 0)}</p>
+              <p className="text-[10px] uppercase tracking-wider text-zinc-500">Estimated</p>
+            </div>
+          </div>
+
+          {(today.limit > 0 || month.limit > 0) && (
+            <div className="space-y-3">
+              {budgetBar("Today", today)}
+              {budgetBar("This month", month)}
+            </div>
+          )}
+
+          {summary.total ? (
+            <>
+              <TotalsTable title="By day" rows={summary.byDay.slice(0, 14)} label={formatDay} />
+              <TotalsTable title="By model" rows={summary.byModel} />
+              <TotalsTable title="By operation" rows={summary.byOperation} label={key => OPERATION_LABELS[key as keyof typeof OPERATION_LABELS] || key} />
+            </>
+          ) : (
+            <p className="text-sm text-zinc-500 text-center py-4">No calls recorded yet.</p>
+          )}
+
+          <div className="space-y-3">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Budgets (USD)</label>
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} type="number" min={0} step="0.5" value={dailyBudget} onChange={e => setDailyBudget(e.target.value)} placeholder="Daily (none)" />
+              <input className={inputClass} type="number" min={0} step="1" value={monthlyBudget} onChange={e => setMonthlyBudget(e.target.value)} placeholder="Monthly (none)" />
+            </div>
+            <p className="text-xs text-zinc-500">You're warned at 80% of a budget. Once it's used up, new requests are refused until the next day or month.</p>
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Prices (USD per million tokens)</label>
+            {rows.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <input className={`${inputClass} flex-1`} value={row.model} onChange={e => updateRow(index, { model: e.target.value })} placeholder="Model" />
+                <input className={`${inputClass} !w-20`} type="number" min={0} step="0.05" value={row.input} onChange={e => updateRow(index, { input: e.target.value })} placeholder="In" />
+                <input className={`${inputClass} !w-20`} type="number" min={0} step="0.05" value={row.output} onChange={e => updateRow(index, { output: e.target.value })} placeholder="Out" />
+                <button onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} className="p-2 rounded-lg text-zinc-500 hover:text-red-400">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setRows(prev => [...prev, { model: '', input: '0', output: '0' }])}
+              className="flex items-center gap-2 text-xs font-semibold text-indigo-400 hover:text-indigo-300"
+            >
+              <Plus className="h-4 w-4" /> Add model
+            </button>
+            <p className="text-xs text-zinc-500">Calls to models without a price count as free. Costs are estimates; your provider's bill is authoritative.</p>
+          </div>
+
+          {error && <p className="text-xs text-amber-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={() => { if (confirm("Clear the usage log? History items keep their own usage.")) onClear(); }}
+              disabled={!records.length}
+              className="px-4 py-3 rounded-xl bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white font-bold transition-all"
+            >
+              Clear log
+            </button>
+            <button
+              onClick={save}
+              disabled={!!error}
+              className="flex-1 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold transition-all"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
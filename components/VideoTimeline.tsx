@@ -0,0 +1,77 @@
+import React from 'react';
+import { VideoEvent, VideoSegment } from '../types';
+import { formatTimestamp } from '../services/format';
+
+interface VideoTimelineProps {
+  segments: VideoSegment[];
+  events: VideoEvent[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+export const VideoTimeline: React.FC<VideoTimelineProps> = ({ segments, events, duration, currentTime, onSeek }) => {
+  // Recorded webm clips often report an infinite duration, so fall back to what the model saw
+  const length = Math.max(duration || 0, ...segments.map(s => s.end), ...events.map(e => e.time), 1);
+  const activeIndex = segments.findIndex(s => currentTime >= s.start && currentTime < s.end);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative h-8 rounded-lg bg-zinc-900 overflow-hidden border border-zinc-800">
+        {segments.map((segment, i) => (
+          <button
+            key={i}
+            onClick={() => onSeek(segment.start)}
+            title={`${formatTimestamp(segment.start)} ${segment.title}`}
+            className={`absolute top-0 bottom-0 border-r border-zinc-950 transition-colors ${i === activeIndex ? 'bg-indigo-500/60' : i % 2 ? 'bg-zinc-800 hover:bg-zinc-700' : 'bg-zinc-800/60 hover:bg-zinc-700'}`}
+            style={{ left: `${(segment.start / length) * 100}%`, width: `${((segment.end - segment.start) / length) * 100}%` }}
+          />
+        ))}
+        {events.map((event, i) => (
+          <button
+            key={`event-${i}`}
+            onClick={() => onSeek(event.time)}
+            title={`${formatTimestamp(event.time)} ${event.label}`}
+            className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-amber-400 hover:w-1.5 transition-all"
+            style={{ left: `${(event.time / length) * 100}%` }}
+          />
+        ))}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: `${Math.min(100, (currentTime / length) * 100)}%` }} />
+      </div>
+
+      <div className="space-y-2">
+        {segments.map((segment, i) => (
+          <button
+            key={i}
+            onClick={() => onSeek(segment.start)}
+            className={`w-full flex items-start gap-3 p-3 rounded-xl border text-left transition-all ${i === activeIndex ? 'bg-indigo-500/10 border-indigo-500/50' : 'bg-zinc-900/40 border-zinc-800/60 hover:bg-zinc-900/60'}`}
+          >
+            {segment.keyframe ? (
+              <img src={segment.keyframe} alt={segment.title} className="w-20 h-12 rounded-md object-cover shrink-0 bg-black" />
+            ) : (
+              <div className="w-20 h-12 rounded-md bg-zinc-800 shrink-0" />
+            )}
+            <div className="min-w-0">
+              <p className="text-xs font-mono text-indigo-400">{formatTimestamp(segment.start)} – {formatTimestamp(segment.end)}</p>
+              <p className="text-sm font-semibold text-white truncate">{segment.title}</p>
+              <p className="text-xs text-zinc-400 line-clamp-2">{segment.summary}</p>
+            </div>
+          </button>
+        ))}
+        {events.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {events.map((event, i) => (
+              <button
+                key={i}
+                onClick={() => onSeek(event.time)}
+                className="px-2.5 py-1 rounded-full bg-amber-400/10 border border-amber-400/30 text-xs text-amber-300 hover:bg-amber-400/20 transition-all"
+              >
+                {formatTimestamp(event.time)} · {event.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+// Caches the app shell so Nano Lens opens and captures offline, and relays
+// background sync to the open app so pending captures get analyzed.
+
+// Filled in by the build (precacheAssets in vite.config.ts) with the hashed
+// files under /assets and a version that changes with them, so each build
+// installs a fresh cache and drops the old one
+const BUILD = { version: 'dev', assets: [] };
+const CACHE = `nano-lens-${BUILD.version}`;
+const SHELL = ['/', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png', '/icons/icon.svg'];
+
+// Kept in step with services/serviceWorker.ts
+const SYNC_TAG = 'nano-lens-pending';
+const SYNC_MESSAGE = 'nano-lens:sync';
+
+// Third-party hosts that are part of the shell: Tailwind and the import map's ESM CDN
+const SHELL_HOSTS = ['cdn.tailwindcss.com', 'esm.sh'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll([...SHELL, ...BUILD.assets])).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheable = response => response.ok || response.type === 'opaque';
+
+// Fresh when online, cached when not. Navigations fall back to the shell.
+const networkFirst = async request => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (cacheable(response)) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request) || (request.mode === 'navigate' ? await cache.match('/') : undefined);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Built assets have content hashes in their names, so a cached copy is never stale
+const cacheFirst = async request => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (cacheable(response)) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  // Model APIs and anything else go straight to the network
+  if (!sameOrigin && !SHELL_HOSTS.includes(url.hostname)) return;
+  event.respondWith(sameOrigin && url.pathname.startsWith('/assets/') ? cacheFirst(request) : networkFirst(request));
+});
+
+// The worker can't run analyses itself (the provider lives in the page), so it
+// wakes any open window. With no window open, the queue runs on next launch.
+self.addEventListener('sync', event => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then(clients => clients.forEach(client => client.postMessage({ type: SYNC_MESSAGE })))
+  );
+});
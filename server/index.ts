@@ -0,0 +1,46 @@
+import { createGeminiProvider } from '../services/providers/gemini';
+import { DEFAULT_SETTINGS } from '../services/settings';
+import { DEFAULT_MAX_BODY_MB } from '../services/providers/proxyApi';
+import { createProxyServer } from './proxy';
+
+// Configured through the environment, so the key never reaches a client:
+//   GEMINI_API_KEY          required
+//   GEMINI_ANALYSIS_MODEL   GEMINI_EDIT_MODEL   GEMINI_BASE_URL   optional overrides
+//   PROXY_PORT              default 8787
+//   PROXY_USERS             comma-separated name:token pairs; unset means no tokens, limits per address
+//   PROXY_RATE_LIMIT        requests per user per minute, default 30
+//   PROXY_MAX_BODY_MB       default 25 (DEFAULT_MAX_BODY_MB)
+//   PROXY_CORS_ORIGIN       default *
+const env = process.env;
+
+const apiKey = env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error("GEMINI_API_KEY is not set.");
+  process.exit(1);
+}
+
+const users = Object.fromEntries((env.PROXY_USERS || '')
+  .split(',')
+  .map(entry => entry.trim().split(':'))
+  .map(([name, ...token]) => [token.join(':'), name])
+  .filter(([token, name]) => name && token));
+
+const gemini = {
+  apiKey,
+  analysisModel: env.GEMINI_ANALYSIS_MODEL || DEFAULT_SETTINGS.gemini.analysisModel,
+  editModel: env.GEMINI_EDIT_MODEL || DEFAULT_SETTINGS.gemini.editModel,
+  baseUrl: env.GEMINI_BASE_URL
+};
+
+const port = Number(env.PROXY_PORT) || 8787;
+
+createProxyServer({
+  createProvider: generation => createGeminiProvider(gemini, generation),
+  users,
+  rateLimit: { requests: Number(env.PROXY_RATE_LIMIT) || 30, windowMs: 60_000 },
+  maxBodyBytes: (Number(env.PROXY_MAX_BODY_MB) || DEFAULT_MAX_BODY_MB) * 1024 * 1024,
+  corsOrigin: env.PROXY_CORS_ORIGIN || '*'
+}).listen(port, () => {
+  const count = Object.keys(users).length;
+  console.log(`Nano Lens proxy listening on :${port} (${count ? `${count} user${count === 1 ? '' : 's'}` : 'no access tokens'})`);
+});
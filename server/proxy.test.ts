@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { createGeminiProvider } from '../services/providers/gemini';
+import { PROXY_ROUTES, USAGE_HEADER } from '../services/providers/proxyApi';
+import { createProxyServer } from './proxy';
+
+// Stands in for the Gemini REST API on localhost: answers generateContent
+// according to the prompt and records what reached it.
+interface UpstreamCall {
+  path: string;
+  apiKey?: string;
+  body: any;
+}
+
+const ANALYSIS = { description: "A mug of coffee on a desk", points: ["Ceramic mug", "Still steaming", "Morning light"] };
+
+const startUpstream = () => {
+  const calls: UpstreamCall[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      calls.push({ path: req.url || '', apiKey: req.headers['x-goog-api-key'] as string | undefined, body });
+      res.setHeader('Content-Type', 'application/json');
+      if (req.method === 'GET') return res.end(JSON.stringify({ name: req.url?.split('/').pop() }));
+
+      const prompt = JSON.stringify(body.contents);
+      const reply = (parts: object[], finishReason = 'STOP') =>
+        res.end(JSON.stringify({
+          candidates: [{ content: { role: 'model', parts }, finishReason }],
+          usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 80 }
+        }));
+      if (prompt.includes('forbidden')) return reply([], 'SAFETY');
+      if (prompt.includes('overloaded')) {
+        res.statusCode = 503;
+        return res.end(JSON.stringify({ error: { code: 503, message: 'overloaded', status: 'UNAVAILABLE' } }));
+      }
+      if (req.url?.includes('image')) return reply([{ inlineData: { data: 'ZWRpdGVk', mimeType: 'image/png' } }, { text: 'Made it sepia' }]);
+      if (body.systemInstruction) return reply([{ text: 'It looks freshly brewed.' }]);
+      reply([{ text: JSON.stringify(ANALYSIS) }]);
+    });
+  });
+  return { server, calls };
+};
+
+const listen = (server: http.Server) => new Promise<string>(resolve => {
+  server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+});
+
+const IMAGE = Buffer.from('not really a jpeg').toString('base64');
+
+describe('proxy server', () => {
+  const upstream = startUpstream();
+  let proxy: http.Server;
+  let proxyUrl: string;
+
+  before(async () => {
+    const upstreamUrl = await listen(upstream.server);
+    proxy = createProxyServer({
+      createProvider: generation => createGeminiProvider(
+        { apiKey: 'server-secret', analysisModel: 'gemini-2.5-flash', editModel: 'gemini-2.5-flash-image', baseUrl: upstreamUrl },
+        generation
+      ),
+      users: { 'token-alice': 'alice', 'token-bob': 'bob', 'token-carol': 'carol' },
+      rateLimit: { requests: 6, windowMs: 60_000 },
+      maxBodyBytes: 64 * 1024,
+      corsOrigin: '*'
+    });
+    proxyUrl = await listen(proxy);
+  });
+
+  after(() => {
+    proxy.close();
+    upstream.server.close();
+  });
+
+  const post = (route: string, body: object, token = 'token-alice') => fetch(`${proxyUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+
+  it('analyzes an image with the server-side key', async () => {
+    const response = await post(PROXY_ROUTES.analyzeImage, { data: IMAGE, mimeType: 'image/jpeg', generation: { temperature: 0.2, language: 'German' } });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), ANALYSIS);
+    assert.deepEqual(JSON.parse(response.headers.get(USAGE_HEADER)!), [{ model: 'gemini-2.5-flash', inputTokens: 1200, outputTokens: 80 }]);
+
+    const call = upstream.calls.at(-1)!;
+    assert.equal(call.apiKey, 'server-secret');
+    assert.match(call.path, /gemini-2\.5-flash:generateContent/);
+    assert.equal(call.body.generationConfig.temperature, 0.2);
+    assert.match(JSON.stringify(call.body.contents), /in German/);
+  });
+
+  it('answers chat and edit requests', async () => {
+    const chat = await post(PROXY_ROUTES.chat, {
+      data: IMAGE,
+      mimeType: 'image/jpeg',
+      analysis: ANALYSIS,
+      messages: [{ id: '1', role: 'user', text: 'Is it hot?', timestamp: 0 }]
+    }, 'token-bob');
+    assert.deepEqual(await chat.json(), { reply: 'It looks freshly brewed.' });
+
+    const edit = await post(PROXY_ROUTES.editImage, { data: IMAGE, mimeType: 'image/jpeg', prompt: 'Make it sepia' }, 'token-bob');
+    assert.deepEqual(await edit.json(), { imageData: 'ZWRpdGVk', textResponse: 'Made it sepia' });
+  });
+
+  it('rejects missing and unknown access tokens', async () => {
+    const response = await post(PROXY_ROUTES.analyzeImage, { data: IMAGE, mimeType: 'image/jpeg' }, 'token-mallory');
+    assert.equal(response.status, 401);
+    assert.equal((await response.json()).error.kind, 'auth');
+
+    const health = await fetch(`${proxyUrl}${PROXY_ROUTES.health}`);
+    assert.equal(health.status, 401);
+  });
+
+  it('refuses bodies over the size limit', async () => {
+    const response = await post(PROXY_ROUTES.analyzeVideo, { data: 'A'.repeat(128 * 1024), mimeType: 'video/mp4' }, 'token-bob');
+    assert.equal(response.status, 413);
+  });
+
+  it('passes upstream failures on with their kind', async () => {
+    const blocked = await post(PROXY_ROUTES.editImage, { data: IMAGE, mimeType: 'image/jpeg', prompt: 'Something forbidden' }, 'token-bob');
+    assert.equal(blocked.status, 422);
+    assert.equal((await blocked.json()).error.kind, 'safety');
+
+    const overloaded = await post(PROXY_ROUTES.editImage, { data: IMAGE, mimeType: 'image/jpeg', prompt: 'Try while overloaded' }, 'token-bob');
+    assert.equal(overloaded.status, 503);
+    assert.equal((await overloaded.json()).error.kind, 'unavailable');
+  });
+
+  it('limits each user separately', async () => {
+    const health = (token: string) => fetch(`${proxyUrl}${PROXY_ROUTES.health}`, { headers: { Authorization: `Bearer ${token}` } });
+    const statuses = [];
+    for (let i = 0; i < 6; i++) {
+      statuses.push((await health('token-carol')).status);
+    }
+    assert.deepEqual(statuses, [200, 200, 200, 200, 200, 200]);
+
+    const limited = await health('token-carol');
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('Retry-After')) > 0);
+    assert.equal((await limited.json()).error.kind, 'rate-limit');
+
+    // Bob has made five requests in the earlier tests, so one more is still allowed
+    assert.equal((await health('token-bob')).status, 200);
+  });
+});
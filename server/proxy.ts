@@ -0,0 +1,194 @@
+import http from 'node:http';
+import { GenerationOptions, RequestOptions, ServiceErrorKind, TokenUsage, VisionProvider } from '../types';
+import { ServiceError, classifyError } from '../services/errors';
+import { AnalyzeBody, ChatBody, EditBody, ExtractTextBody, PROXY_ROUTES, ProxyErrorBody, USAGE_HEADER } from '../services/providers/proxyApi';
+import { RateLimit, createRateLimiter } from './rateLimit';
+
+export interface ProxyOptions {
+  // Builds the upstream provider, which holds the key, for one request
+  createProvider: (generation: GenerationOptions) => VisionProvider;
+  users: Record<string, string>; // Access token -> user name; empty lets anyone in, limited per address
+  rateLimit: RateLimit;
+  maxBodyBytes: number;
+  corsOrigin: string;
+}
+
+const DEFAULT_GENERATION: GenerationOptions = { temperature: 1, language: '' };
+
+// Upstream auth failures are the operator's problem, not the caller's, so they aren't reported as 401
+const STATUS_BY_KIND: Record<ServiceErrorKind, number> = {
+  auth: 502,
+  'rate-limit': 429,
+  safety: 422,
+  network: 502,
+  timeout: 504,
+  malformed: 502,
+  unavailable: 503,
+  budget: 402,
+  unknown: 500
+};
+
+class ProxyError extends Error {
+  status: number;
+  kind: ServiceErrorKind;
+
+  constructor(status: number, kind: ServiceErrorKind, message: string) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+const readJson = (req: http.IncomingMessage, maxBytes: number): Promise<any> => new Promise((resolve, reject) => {
+  const tooLarge = () => new ProxyError(413, 'unknown', `Requests are limited to ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+  if (Number(req.headers['content-length']) > maxBytes) {
+    req.resume();
+    return reject(tooLarge());
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      // Keep draining so the 413 can still be delivered, but stop buffering
+      req.removeAllListeners('data');
+      req.resume();
+      reject(tooLarge());
+    } else {
+      chunks.push(chunk);
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new ProxyError(400, 'unknown', "The request body must be JSON."));
+    }
+  });
+  req.on('error', reject);
+});
+
+const requireMedia = (body: any) => {
+  if (typeof body?.data !== 'string' || typeof body?.mimeType !== 'string') {
+    throw new ProxyError(400, 'unknown', "The request needs `data` (raw base64) and `mimeType`.");
+  }
+};
+
+// Callers choose the temperature and language, within the range the providers accept
+const readGeneration = (body: any): GenerationOptions => {
+  const temperature = Number(body?.generation?.temperature);
+  const language = body?.generation?.language;
+  return {
+    temperature: temperature >= 0 && temperature <= 2 ? temperature : DEFAULT_GENERATION.temperature,
+    language: typeof language === 'string' ? language.slice(0, 40) : DEFAULT_GENERATION.language
+  };
+};
+
+type Handler = (body: any, provider: VisionProvider, options: RequestOptions) => Promise<unknown>;
+
+// One route per VisionProvider method
+const HANDLERS: Record<string, Handler> = {
+  [PROXY_ROUTES.analyzeImage]: (body: AnalyzeBody, provider, options) =>
+    provider.analyzeImage(body.data, body.mimeType, body.preset, options),
+  [PROXY_ROUTES.analyzeVideo]: (body: AnalyzeBody, provider, options) =>
+    provider.analyzeVideo(new Blob([Buffer.from(body.data, 'base64')], { type: body.mimeType }), body.preset, options),
+  [PROXY_ROUTES.editImage]: (body: EditBody, provider, options) => {
+    if (typeof body.prompt !== 'string' || !body.prompt.trim()) throw new ProxyError(400, 'unknown', "The request needs a `prompt`.");
+    return provider.editImage(body.data, body.mimeType, body.prompt, body.mask, options);
+  },
+  [PROXY_ROUTES.chat]: async (body: ChatBody, provider, options) => {
+    if (!Array.isArray(body.messages) || !body.messages.length) throw new ProxyError(400, 'unknown', "The request needs `messages`.");
+    return { reply: await provider.chat(new Blob([Buffer.from(body.data, 'base64')], { type: body.mimeType }), body.analysis, body.messages, options) };
+  },
+  [PROXY_ROUTES.extractText]: async (body: ExtractTextBody, provider, options) =>
+    ({ text: await provider.extractText(body.data, body.mimeType, options) })
+};
+
+/**
+ * An HTTP server exposing the VisionProvider methods under /api. Callers
+ * authenticate with a bearer token, each user (or address, without tokens)
+ * gets its own rate limit, and bodies over `maxBodyBytes` are refused.
+ * Failures come back as `{ error: { kind, message } }` with a matching status.
+ */
+export const createProxyServer = (options: ProxyOptions) => {
+  const limiter = createRateLimiter(options.rateLimit);
+  const requireToken = Object.keys(options.users).length > 0;
+
+  const send = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  const sendError = (res: http.ServerResponse, err: unknown, headers: Record<string, string> = {}) => {
+    let status: number;
+    let kind: ServiceErrorKind;
+    let message: string;
+    if (err instanceof ProxyError) {
+      ({ status, kind, message } = err);
+    } else {
+      const error = classifyError(err);
+      status = STATUS_BY_KIND[error.kind];
+      kind = error.kind === 'auth' ? 'unknown' : error.kind;
+      message = error.kind === 'auth' ? "The proxy's provider key is missing or was rejected." : error.message;
+      if (error.kind === 'unknown' || error.kind === 'auth') console.error("Upstream request failed", err);
+      if (error.retryAfter) headers['Retry-After'] = String(Math.ceil(error.retryAfter / 1000));
+    }
+    send(res, status, { error: { kind, message } } satisfies ProxyErrorBody, headers);
+  };
+
+  return http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', options.corsOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Expose-Headers', `Retry-After, ${USAGE_HEADER}`);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    // Dropping the connection cancels the upstream request
+    const controller = new AbortController();
+    // Passed back so clients can track cost, including for failed calls
+    const usage: TokenUsage[] = [];
+    const usageHeaders = (): Record<string, string> => usage.length ? { [USAGE_HEADER]: JSON.stringify(usage) } : {};
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort(new ServiceError('network', "The client went away."));
+    });
+
+    try {
+      const path = new URL(req.url || '/', 'http://proxy').pathname;
+      const handler = HANDLERS[path];
+      if (path !== PROXY_ROUTES.health && !handler) throw new ProxyError(404, 'unknown', `No route for ${path}.`);
+      if (path === PROXY_ROUTES.health ? req.method !== 'GET' : req.method !== 'POST') {
+        throw new ProxyError(405, 'unknown', `${req.method} is not allowed on ${path}.`);
+      }
+
+      const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+      const user = token && Object.hasOwn(options.users, token) ? options.users[token] : undefined;
+      if (requireToken && !user) throw new ProxyError(401, 'auth', "The proxy access token is missing or unknown. Check it in Settings.");
+
+      const wait = limiter.take(user ? `user:${user}` : `address:${req.socket.remoteAddress}`);
+      if (wait > 0) {
+        const seconds = Math.ceil(wait / 1000);
+        send(res, 429, { error: { kind: 'rate-limit', message: `Too many requests. Try again in ${seconds} s.` } } satisfies ProxyErrorBody, { 'Retry-After': String(seconds) });
+        return;
+      }
+
+      if (!handler) {
+        await options.createProvider(DEFAULT_GENERATION).testConnection({ signal: controller.signal });
+        send(res, 200, { ok: true, user: user ?? null });
+        return;
+      }
+
+      const body = await readJson(req, options.maxBodyBytes);
+      requireMedia(body);
+      const provider = options.createProvider(readGeneration(body));
+      const result = await handler(body, provider, { signal: controller.signal, onUsage: u => usage.push(u) });
+      send(res, 200, result, usageHeaders());
+    } catch (err) {
+      if (res.destroyed) return;
+      sendError(res, err, usageHeaders());
+    }
+  });
+};
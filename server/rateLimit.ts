@@ -0,0 +1,39 @@
+export interface RateLimit {
+  requests: number; // Allowed per window
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  // Counts a request for `key` and returns 0, or when over the limit, the ms until one is allowed again
+  take: (key: string) => number;
+}
+
+/** Sliding-window limiter keeping each key's recent request times in memory. */
+export const createRateLimiter = ({ requests, windowMs }: RateLimit, now = () => Date.now()): RateLimiter => {
+  const history = new Map<string, number[]>();
+  let lastSweep = now();
+
+  // Once a window, forget keys with nothing left in it, so addresses seen once don't stay forever
+  const sweep = (time: number) => {
+    if (time - lastSweep < windowMs) return;
+    lastSweep = time;
+    history.forEach((times, key) => {
+      if (times[times.length - 1] <= time - windowMs) history.delete(key);
+    });
+  };
+
+  return {
+    take: (key) => {
+      const time = now();
+      sweep(time);
+      const recent = (history.get(key) || []).filter(t => t > time - windowMs);
+      if (recent.length >= requests) {
+        history.set(key, recent);
+        return recent[0] + windowMs - time;
+      }
+      recent.push(time);
+      history.set(key, recent);
+      return 0;
+    }
+  };
+};
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AnalysisPreset, AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from './settings';
+import { createMockProvider } from './providers/mock';
+import { analysisScope, cacheKey, withAnalysisCache } from './analysisCache';
+
+const RECEIPT: AnalysisPreset = {
+  id: 'receipt',
+  name: 'Receipt',
+  instruction: 'Read the totals.',
+  fields: [{ name: 'total', type: 'number', description: 'Amount paid' }]
+};
+
+const scopeOf = (patch: Partial<AppSettings>) => analysisScope({ ...DEFAULT_SETTINGS, ...patch });
+
+describe('analysisScope', () => {
+  it('changes with the provider, model and response language', () => {
+    const base = scopeOf({});
+    assert.notEqual(scopeOf({ gemini: { ...DEFAULT_SETTINGS.gemini, analysisModel: 'gemini-2.5-pro' } }), base);
+    assert.notEqual(scopeOf({ generation: { ...DEFAULT_SETTINGS.generation, language: 'German' } }), base);
+    assert.notEqual(scopeOf({ provider: 'http' }), base);
+    assert.notEqual(scopeOf({ provider: 'http', http: { ...DEFAULT_SETTINGS.http, model: 'qwen2-vl' } }), scopeOf({ provider: 'http' }));
+  });
+
+  it('ignores settings that do not change the answer', () => {
+    assert.equal(scopeOf({ gemini: { ...DEFAULT_SETTINGS.gemini, apiKey: 'another-key' } }), scopeOf({}));
+    assert.equal(scopeOf({ generation: { ...DEFAULT_SETTINGS.generation, temperature: 0.2 } }), scopeOf({}));
+    // Only the active provider's model counts
+    assert.equal(scopeOf({ http: { ...DEFAULT_SETTINGS.http, model: 'qwen2-vl' } }), scopeOf({}));
+  });
+});
+
+describe('cacheKey', () => {
+  const scope = scopeOf({});
+
+  it('is keyed by the media hash first', async () => {
+    const key = await cacheKey('abc123', scope, RECEIPT);
+    assert.match(key, /^abc123:[0-9a-f]{64}$/);
+    assert.equal(await cacheKey('abc123', scope, RECEIPT), key);
+    assert.notEqual(await cacheKey('def456', scope, RECEIPT), key);
+  });
+
+  it('separates scopes and what a preset asks for, but not its name', async () => {
+    const key = await cacheKey('abc123', scope, RECEIPT);
+    assert.notEqual(await cacheKey('abc123', scopeOf({ provider: 'mock' }), RECEIPT), key);
+    assert.notEqual(await cacheKey('abc123', scope, { ...RECEIPT, instruction: 'Read the date.' }), key);
+    assert.notEqual(await cacheKey('abc123', scope, { ...RECEIPT, fields: [] }), key);
+    assert.notEqual(await cacheKey('abc123', scope), key);
+    assert.equal(await cacheKey('abc123', scope, { ...RECEIPT, id: 'copy', name: 'Till slip' }), key);
+  });
+
+  it('treats no preset and an empty one alike', async () => {
+    assert.equal(await cacheKey('abc123', scope, { id: 'general', name: 'General', instruction: '', fields: [] }), await cacheKey('abc123', scope));
+  });
+});
+
+describe('withAnalysisCache', () => {
+  it('asks the provider when the cache cannot be opened', async () => {
+    // Node has no IndexedDB, so every lookup and write fails
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      let calls = 0;
+      const mock = createMockProvider();
+      const provider = withAnalysisCache({ ...mock, analyzeImage: async (...args) => { calls++; return mock.analyzeImage(...args); } }, scopeOf({ provider: 'mock' }));
+      const first = await provider.analyzeImage('aW1hZ2U=', 'image/jpeg', RECEIPT);
+      const second = await provider.analyzeImage('aW1hZ2U=', 'image/jpeg', RECEIPT);
+      assert.equal(calls, 2);
+      assert.deepEqual(second, first);
+      // Let the failed writes finish before warnings are shown again
+      await new Promise(resolve => setImmediate(resolve));
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { AnalysisPreset, AnalysisResult, AppSettings, RequestOptions, VisionProvider } from '../types';
+import { base64ToBlob, hashBlob } from './media';
+
+const DB_NAME = 'nanoLensAnalysisCache';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+
+// Oldest results are dropped beyond this; they're small, but there's no reason to keep them forever
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  key: string;
+  result: AnalysisResult;
+  storedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(RESULTS_STORE, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RESULTS_STORE, mode);
+    const request = work(tx.objectStore(RESULTS_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const readEntry = async (key: string) => (await withStore<CacheEntry | undefined>('readonly', store => store.get(key)))?.result;
+
+const writeEntry = (entry: CacheEntry) => withStore('readwrite', store => {
+  store.put(entry);
+  const count = store.count();
+  count.onsuccess = () => {
+    let excess = count.result - MAX_ENTRIES;
+    if (excess <= 0) return;
+    const cursor = store.index('storedAt').openCursor();
+    cursor.onsuccess = () => {
+      if (!cursor.result || excess-- <= 0) return;
+      cursor.result.delete();
+      cursor.result.continue();
+    };
+  };
+});
+
+/** What besides the media and preset decides the answer: provider, model and response language. */
+export const analysisScope = (settings: AppSettings) => {
+  const model = settings.provider === 'gemini' ? settings.gemini.analysisModel
+    : settings.provider === 'http' ? `${settings.http.baseUrl} ${settings.http.model}`
+    // The proxy picks the model server-side
+    : settings.provider === 'proxy' ? settings.proxy.baseUrl
+    : '';
+  return [settings.provider, model, settings.generation.language].join('|');
+};
+
+// Presets are keyed by what they ask for, so renaming one keeps its results and editing it doesn't
+export const cacheKey = async (mediaHash: string, scope: string, preset?: AnalysisPreset) => {
+  const request = JSON.stringify([scope, preset?.instruction || '', preset?.fields || []]);
+  return `${mediaHash}:${await hashBlob(new Blob([request]))}`;
+};
+
+/**
+ * Answers analyses of media already analyzed with the same scope and preset
+ * from a local cache, keyed by the SHA-256 of the preprocessed media.
+ * `refresh` in the request options skips the lookup and replaces the entry.
+ */
+export const withAnalysisCache = (provider: VisionProvider, scope: string): VisionProvider => {
+  const cached = async (media: Blob, preset: AnalysisPreset | undefined, options: RequestOptions | undefined, analyze: () => Promise<AnalysisResult>) => {
+    let key: string | null = null;
+    try {
+      key = await cacheKey(await hashBlob(media), scope, preset);
+      const hit = !options?.refresh && await readEntry(key);
+      if (hit) return hit;
+    } catch (err) {
+      // A cache that can't be read just means asking the provider
+      console.warn("Analysis cache unavailable", err);
+    }
+
+    const result = await analyze();
+    if (key) {
+      writeEntry({ key, result, storedAt: Date.now() }).catch(err => console.warn("Could not cache analysis", err));
+    }
+    return result;
+  };
+
+  return {
+    ...provider,
+    analyzeImage: (raw, mimeType, preset, options) =>
+      cached(base64ToBlob(raw, mimeType), preset, options, () => provider.analyzeImage(raw, mimeType, preset, options)),
+    analyzeVideo: (video, preset, options) =>
+      cached(video, preset, options, () => provider.analyzeVideo(video, preset, options))
+  };
+};
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AppState } from '../types';
+import { TRANSITIONS, appStateReducer, canTransition } from './appMachine';
+
+describe('app state machine', () => {
+  it('lists moves out of every state', () => {
+    for (const state of Object.values(AppState)) {
+      assert.ok(TRANSITIONS[state]?.length, `${state} has no way out`);
+      assert.ok(!TRANSITIONS[state].includes(state), `${state} lists itself`);
+    }
+  });
+
+  it('only moves to known states', () => {
+    const states = new Set(Object.values(AppState));
+    Object.values(TRANSITIONS).flat().forEach(to => assert.ok(states.has(to), `${to} is not a state`));
+  });
+
+  it('lets every state get back to idle', () => {
+    for (const state of Object.values(AppState)) {
+      if (state !== AppState.IDLE) assert.ok(canTransition(state, AppState.IDLE), `${state} can't return to idle`);
+    }
+  });
+
+  it('follows a capture from recording to an edit', () => {
+    const path = [AppState.RECORDING, AppState.ANALYZING, AppState.VIEWING, AppState.EDITING, AppState.VIEWING, AppState.IDLE];
+    const end = path.reduce((state, next) => {
+      const moved = appStateReducer(state, next);
+      assert.equal(moved, next, `${state} -> ${next} was refused`);
+      return moved;
+    }, AppState.IDLE);
+    assert.equal(end, AppState.IDLE);
+  });
+
+  it('ignores illegal moves, such as a late edit result after going home', () => {
+    const warn = console.warn;
+    const warnings: unknown[][] = [];
+    console.warn = (...args: unknown[]) => { warnings.push(args); };
+    try {
+      assert.equal(appStateReducer(AppState.IDLE, AppState.EDITING), AppState.IDLE);
+      assert.equal(appStateReducer(AppState.RECORDING, AppState.VIEWING), AppState.RECORDING);
+      assert.equal(appStateReducer(AppState.ADJUSTING, AppState.EDITING), AppState.ADJUSTING);
+    } finally {
+      console.warn = warn;
+    }
+    assert.equal(warnings.length, 3);
+  });
+
+  it('treats staying put as a no-op rather than an illegal move', () => {
+    assert.equal(appStateReducer(AppState.VIEWING, AppState.VIEWING), AppState.VIEWING);
+    assert.equal(canTransition(AppState.VIEWING, AppState.VIEWING), false);
+  });
+});
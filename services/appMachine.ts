@@ -0,0 +1,26 @@
+import { AppState } from '../types';
+
+/**
+ * Every state the capture flow may move to from each state. Anything not
+ * listed is a bug (usually a late callback) and is refused.
+ */
+export const TRANSITIONS: Record<AppState, AppState[]> = {
+  [AppState.IDLE]: [AppState.RECORDING, AppState.ADJUSTING, AppState.ANALYZING, AppState.VIEWING],
+  [AppState.RECORDING]: [AppState.ANALYZING, AppState.IDLE],
+  [AppState.ADJUSTING]: [AppState.IDLE, AppState.ANALYZING],
+  [AppState.ANALYZING]: [AppState.VIEWING, AppState.IDLE],
+  [AppState.VIEWING]: [AppState.ANALYZING, AppState.EDITING, AppState.IDLE],
+  [AppState.EDITING]: [AppState.VIEWING, AppState.IDLE]
+};
+
+export const canTransition = (from: AppState, to: AppState) => TRANSITIONS[from].includes(to);
+
+/** Reducer for `useReducer`: illegal moves leave the state unchanged. */
+export const appStateReducer = (state: AppState, next: AppState): AppState => {
+  if (state === next) return state;
+  if (!canTransition(state, next)) {
+    console.warn(`Ignored illegal transition ${state} -> ${next}`);
+    return state;
+  }
+  return next;
+};
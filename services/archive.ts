@@ -0,0 +1,257 @@
+import { AnalysisPreset, ArchiveImportReport, HistoryItem } from '../types';
+import { createThumbnail, hashBlob } from './media';
+import { normalizeAnalysis } from './providers/prompts';
+import { createZip, readZip, ZipEntry } from './zip';
+import { HistoryEntryData, HistoryQuotaError, readHistoryEntry, writeHistoryEntry } from './historyStore';
+
+const ARCHIVE_FORMAT = 'nano-lens-archive';
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+interface ManifestEntry {
+  item: HistoryItem;
+  media: string; // Path of the original capture inside the archive
+  edits: Record<string, string>; // Step id -> path
+  pages: Record<string, string>; // Page id -> path
+}
+
+interface Manifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: ManifestEntry[];
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov'
+};
+
+const extensionFor = (mimeType: string) => EXTENSIONS[mimeType.split(';')[0]] || 'bin';
+
+/** Packs the given entries, media included, into a single ZIP file. */
+export const exportArchive = async (items: HistoryItem[]): Promise<Blob> => {
+  const files: ZipEntry[] = [];
+  const manifest: Manifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    items: []
+  };
+
+  for (const item of items) {
+    const data = await readHistoryEntry(item);
+    const hash = item.hash || await hashBlob(data.blob);
+    const folder = `media/${item.id}`;
+    const entry: ManifestEntry = {
+      item: { ...item, hash },
+      media: `${folder}/original.${extensionFor(data.blob.type || item.mimeType)}`,
+      edits: {},
+      pages: {}
+    };
+    files.push({ name: entry.media, data: data.blob });
+    Object.entries(data.edits).forEach(([id, blob]) => {
+      entry.edits[id] = `${folder}/edits/${id}.${extensionFor(blob.type)}`;
+      files.push({ name: entry.edits[id], data: blob });
+    });
+    Object.entries(data.pages).forEach(([id, blob]) => {
+      entry.pages[id] = `${folder}/pages/${id}.${extensionFor(blob.type)}`;
+      files.push({ name: entry.pages[id], data: blob });
+    });
+    manifest.items.push(entry);
+  }
+
+  files.unshift({ name: MANIFEST_NAME, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) });
+  return createZip(files);
+};
+
+const readManifest = async (files: Map<string, Blob>): Promise<Manifest> => {
+  const file = files.get(MANIFEST_NAME);
+  if (!file) throw new ArchiveError("This file has no manifest, so it isn't a Nano Lens archive.");
+  let manifest: Manifest;
+  try {
+    manifest = JSON.parse(await file.text());
+  } catch {
+    throw new ArchiveError("The archive manifest is not valid JSON.");
+  }
+  if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new ArchiveError("This file isn't a Nano Lens archive.");
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`Archive version ${manifest.version} is newer than this app supports (${ARCHIVE_VERSION}). Update Nano Lens and try again.`);
+  }
+  return manifest;
+};
+
+// Restores the MIME type that ZIP entries don't carry
+const withType = (blob: Blob, type: string) => new Blob([blob], { type });
+
+const typeFromPath = (path: string) =>
+  Object.entries(EXTENSIONS).find(([, ext]) => path.endsWith(`.${ext}`))?.[0] || 'application/octet-stream';
+
+const pickBlobs = (files: Map<string, Blob>, paths: Record<string, string>) => {
+  const blobs: Record<string, Blob> = {};
+  Object.entries(paths || {}).forEach(([id, path]) => {
+    const blob = files.get(path);
+    if (blob) blobs[id] = withType(blob, typeFromPath(path));
+  });
+  return blobs;
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isRecord = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isListOf = (value: unknown, check: (item: any) => boolean) => Array.isArray(value) && value.every(check);
+
+const isChatMessage = (m: any) => isRecord(m) && isString(m.id) && (m.role === 'user' || m.role === 'model') && isString(m.text) && Number.isFinite(m.timestamp);
+const isEditStep = (s: any) => isRecord(s) && isString(s.id) && (s.parentId === null || isString(s.parentId)) && isString(s.prompt) && Number.isFinite(s.timestamp);
+const isPage = (p: any) => isRecord(p) && isString(p.id) && isString(p.text);
+const isPreset = (p: any): p is AnalysisPreset => isRecord(p) && isString(p.id) && isString(p.name) && isString(p.instruction) && Array.isArray(p.fields);
+
+// Thumbnails are rendered as image sources, so only embedded images are taken as they are
+const DATA_IMAGE = /^data:image\/[\w.+-]+[;,]/;
+
+/**
+ * The manifest comes from outside the app, so every field that is stored or
+ * rendered is checked. Returns why the entry can't be imported, or null.
+ */
+const checkItem = (item: any): string | null => {
+  if (item.type !== 'image' && item.type !== 'video') return "Unknown media type";
+  if (!isString(item.mimeType) || !item.mimeType.startsWith(`${item.type}/`)) return "Invalid MIME type";
+  if (!Number.isFinite(item.timestamp)) return "Invalid date";
+  if (item.tags !== undefined && !isListOf(item.tags, isString)) return "Invalid tags";
+  if (item.favorite !== undefined && typeof item.favorite !== 'boolean') return "Invalid favorite flag";
+  if (item.analysis !== undefined && !isRecord(item.analysis)) return "Invalid analysis";
+  if (item.chat !== undefined && !isListOf(item.chat, isChatMessage)) return "Invalid chat";
+  if (item.edits !== undefined && !(isRecord(item.edits) && isListOf(item.edits.steps, isEditStep) && (item.edits.currentId === null || isString(item.edits.currentId)))) {
+    return "Invalid edit history";
+  }
+  if (item.pages !== undefined && !isListOf(item.pages, isPage)) return "Invalid document pages";
+  if (item.preset !== undefined && !isPreset(item.preset)) return "Invalid preset";
+  return null;
+};
+
+// Rebuilt field by field, so nothing the app doesn't know about is stored
+const toHistoryItem = (item: any, blob: Blob, hash: string, thumbnail: string): HistoryItem => {
+  const analysis = item.analysis && normalizeAnalysis(item.analysis);
+  return {
+    id: item.id,
+    thumbnail,
+    mimeType: item.mimeType,
+    timestamp: item.timestamp,
+    type: item.type,
+    size: blob.size,
+    analysis,
+    edits: item.edits && { steps: item.edits.steps, currentId: item.edits.currentId },
+    chat: item.chat,
+    pages: item.pages,
+    diagnostics: isRecord(item.diagnostics) ? item.diagnostics as HistoryItem['diagnostics'] : undefined,
+    preset: item.preset,
+    tags: item.tags,
+    favorite: item.favorite || undefined,
+    hash,
+    pending: (!analysis && item.pending === true) || undefined,
+    usage: Array.isArray(item.usage) ? item.usage.filter(isRecord) : undefined
+  };
+};
+
+/**
+ * Adds every archived entry that isn't already in history. Entries are
+ * matched by id and by the SHA-256 of their media, so re-importing the same
+ * archive, or one exported from another device, never creates duplicates.
+ */
+export const importArchive = async (archive: Blob, existing: HistoryItem[]): Promise<ArchiveImportReport> => {
+  let files: Map<string, Blob>;
+  try {
+    files = await readZip(archive);
+  } catch (e) {
+    throw new ArchiveError(e instanceof Error ? `Could not read the archive: ${e.message}` : "Could not read the archive.");
+  }
+  const manifest = await readManifest(files);
+
+  const ids = new Set(existing.map(i => i.id));
+  const hashes = new Set<string>();
+  for (const item of existing) {
+    if (item.hash) {
+      hashes.add(item.hash);
+      continue;
+    }
+    // Entries saved before hashes were recorded
+    try {
+      hashes.add(await hashBlob((await readHistoryEntry(item)).blob));
+    } catch (e) {
+      console.warn(`Could not hash history item ${item.id}`, e);
+    }
+  }
+
+  const report: ArchiveImportReport = { imported: [], skipped: [] };
+  let storageFull = false;
+  for (const entry of manifest.items) {
+    const id = isString(entry?.item?.id) && entry.item.id ? entry.item.id : undefined;
+    if (storageFull) {
+      report.skipped.push({ id: id || 'unknown', reason: "Device storage is full" });
+      continue;
+    }
+    if (!id || !isString(entry.media)) {
+      report.skipped.push({ id: id || 'unknown', reason: "Incomplete manifest entry" });
+      continue;
+    }
+    const invalid = checkItem(entry.item);
+    if (invalid) {
+      report.skipped.push({ id, reason: invalid });
+      continue;
+    }
+    if (ids.has(id)) {
+      report.skipped.push({ id, reason: "Already in history" });
+      continue;
+    }
+    const media = files.get(entry.media);
+    if (!media) {
+      report.skipped.push({ id, reason: "Media file missing from archive" });
+      continue;
+    }
+    const blob = withType(media, entry.item.mimeType);
+    const hash = await hashBlob(blob);
+    if (entry.item.hash && entry.item.hash !== hash) {
+      report.skipped.push({ id, reason: "Media is corrupted (hash mismatch)" });
+      continue;
+    }
+    if (hashes.has(hash)) {
+      report.skipped.push({ id, reason: "Same capture already in history" });
+      continue;
+    }
+
+    const thumbnail = isString(entry.item.thumbnail) && DATA_IMAGE.test(entry.item.thumbnail)
+      ? entry.item.thumbnail
+      : await createThumbnail(blob, entry.item.type);
+    const data: HistoryEntryData = {
+      item: toHistoryItem(entry.item, blob, hash, thumbnail),
+      blob,
+      edits: pickBlobs(files, entry.edits),
+      pages: pickBlobs(files, entry.pages)
+    };
+    try {
+      await writeHistoryEntry(data);
+    } catch (e) {
+      console.error(`Failed to import history item ${id}`, e);
+      // A full disk won't clear up for the remaining entries
+      storageFull = e instanceof HistoryQuotaError;
+      report.skipped.push({ id, reason: storageFull ? "Device storage is full" : "Could not be saved" });
+      continue;
+    }
+    ids.add(id);
+    hashes.add(hash);
+    report.imported.push(data.item);
+  }
+  return report;
+};
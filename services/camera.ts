@@ -0,0 +1,117 @@
+import { CameraCapabilities, CameraResolution, CameraSettings } from '../types';
+
+const CAMERA_KEY = 'nanoLensCamera';
+
+export const RESOLUTIONS: Record<CameraResolution, { label: string; width: number; height: number }> = {
+  '720p': { label: 'HD 720p', width: 1280, height: 720 },
+  '1080p': { label: 'Full HD 1080p', width: 1920, height: 1080 },
+  '4k': { label: '4K', width: 3840, height: 2160 }
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  facing: 'environment',
+  resolution: '1080p',
+  torch: false
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const saved = localStorage.getItem(CAMERA_KEY);
+    return saved ? { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CAMERA_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load camera settings", e);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(CAMERA_KEY, JSON.stringify(settings));
+};
+
+export const videoConstraints = (settings: CameraSettings, useDevice = true): MediaTrackConstraints => {
+  const { width, height } = RESOLUTIONS[settings.resolution];
+  return {
+    ...(useDevice && settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: settings.facing }),
+    width: { ideal: width },
+    height: { ideal: height },
+    // @ts-ignore - zoom is part of the Image Capture extensions
+    zoom: true
+  };
+};
+
+/**
+ * Opens the configured camera. A remembered device that has since gone away
+ * falls back to the front/back preference instead of failing.
+ */
+export const openCamera = async (settings: CameraSettings, audio: boolean): Promise<MediaStream> => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings), audio });
+  } catch (err) {
+    if (!settings.deviceId || (err as Error).name !== 'OverconstrainedError') throw err;
+    console.warn("Saved camera unavailable, falling back to facing mode", err);
+    return navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings, false), audio });
+  }
+};
+
+/** Video inputs; labels are only filled in once camera permission is granted. */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+// Image Capture extensions that the DOM typings don't cover yet
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  zoom?: { min: number; max: number; step?: number };
+  torch?: boolean;
+  focusMode?: string[];
+  exposureMode?: string[];
+  pointsOfInterest?: unknown;
+}
+
+export const readCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  const caps: ExtendedCapabilities = track.getCapabilities?.() || {};
+  const canMeter = (modes?: string[]) => !!modes?.some(m => m === 'single-shot' || m === 'continuous');
+  return {
+    zoom: caps.zoom && caps.zoom.max > caps.zoom.min ? { min: caps.zoom.min, max: caps.zoom.max, step: caps.zoom.step || 0.1 } : null,
+    torch: !!caps.torch,
+    focus: canMeter(caps.focusMode),
+    exposure: canMeter(caps.exposureMode)
+  };
+};
+
+const applyAdvanced = async (track: MediaStreamTrack, constraint: Record<string, unknown>) => {
+  try {
+    await track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+  } catch (err) {
+    console.warn("Camera constraint not applied", constraint, err);
+  }
+};
+
+export const applyZoom = (track: MediaStreamTrack, zoom: number) => applyAdvanced(track, { zoom });
+
+export const applyTorch = (track: MediaStreamTrack, torch: boolean) => applyAdvanced(track, { torch });
+
+/** Focuses and meters on a point of the frame, given as 0-1 fractions. */
+export const focusAt = (track: MediaStreamTrack, capabilities: CameraCapabilities, x: number, y: number) => {
+  const constraint: Record<string, unknown> = { pointsOfInterest: [{ x, y }] };
+  if (capabilities.focus) constraint.focusMode = 'single-shot';
+  if (capabilities.exposure) constraint.exposureMode = 'single-shot';
+  return applyAdvanced(track, constraint);
+};
+
+/**
+ * Maps a tap on an `object-cover` preview to a point in the video frame,
+ * accounting for the part of the frame that is cropped off screen. Returns
+ * null for taps outside the frame.
+ */
+export const previewPointToFrame = (video: HTMLVideoElement, clientX: number, clientY: number) => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const rect = video.getBoundingClientRect();
+  const scale = Math.max(rect.width / video.videoWidth, rect.height / video.videoHeight);
+  const shownWidth = video.videoWidth * scale;
+  const shownHeight = video.videoHeight * scale;
+  const x = (clientX - rect.left - (rect.width - shownWidth) / 2) / shownWidth;
+  const y = (clientY - rect.top - (rect.height - shownHeight) / 2) / shownHeight;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+};
@@ -0,0 +1,13 @@
+import { DetectedObject } from '../types';
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** True when `text` mentions the label as a word (plural forms included). */
+export const mentionsLabel = (text: string, label: string) =>
+  new RegExp(`\\b${escapeRegExp(label.trim())}(s|es)?\\b`, 'i').test(text);
+
+export const findInsightIndex = (points: string[] | undefined, label: string) =>
+  (points || []).findIndex(point => mentionsLabel(point, label));
+
+export const findObjectForInsight = (objects: DetectedObject[] | undefined, point: string) =>
+  (objects || []).find(o => mentionsLabel(point, o.label));
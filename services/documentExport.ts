@@ -0,0 +1,58 @@
+import { jsPDF } from "jspdf";
+import { DocumentPage } from '../types';
+
+export const documentToText = (pages: DocumentPage[]) =>
+  pages.map(p => p.text.trim()).join('\n\n\f\n\n');
+
+export const documentToMarkdown = (pages: DocumentPage[], title = "Scanned Document") =>
+  [
+    `# ${title}`,
+    ...pages.map((p, i) => `## Page ${i + 1}\n\n${p.text.trim() || '_No text found._'}`)
+  ].join('\n\n') + '\n';
+
+export const downloadFile = (filename: string, content: string | Blob, mimeType = 'text/plain') => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** One PDF with every page image followed by its extracted text. */
+export const exportDocumentPdf = (pages: DocumentPage[], filename = "nano-lens-scan.pdf") => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const maxWidth = pageWidth - margin * 2;
+  const maxHeight = pageHeight - margin * 2;
+
+  pages.forEach((page, index) => {
+    if (index > 0) doc.addPage();
+    const props = doc.getImageProperties(page.image);
+    const scale = Math.min(maxWidth / props.width, maxHeight / props.height);
+    const width = props.width * scale;
+    const height = props.height * scale;
+    doc.addImage(page.image, 'JPEG', (pageWidth - width) / 2, margin, width, height);
+
+    if (!page.text.trim()) return;
+    doc.addPage();
+    doc.setFontSize(14);
+    doc.setTextColor(0, 0, 0);
+    doc.text(`Page ${index + 1} text`, margin, margin + 5);
+    doc.setFontSize(11);
+    doc.setTextColor(40, 40, 40);
+    let yPos = margin + 15;
+    doc.splitTextToSize(page.text, maxWidth).forEach((line: string) => {
+      if (yPos > pageHeight - margin) {
+        doc.addPage();
+        yPos = margin + 5;
+      }
+      doc.text(line, margin, yPos);
+      yPos += 6;
+    });
+  });
+  doc.save(filename);
+};
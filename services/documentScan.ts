@@ -0,0 +1,206 @@
+import { Point, Quad } from '../types';
+
+const DETECT_SIZE = 200;
+const MAX_OUTPUT_SIZE = 2000;
+
+// Used when no page stands out from the background
+export const DEFAULT_QUAD: Quad = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 }
+];
+
+const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (!weightBackground) continue;
+    const weightForeground = total - weightBackground;
+    if (!weightForeground) break;
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Finds the page in a frame, assuming it is the largest bright region
+ * (paper against a darker surface). Returns normalized corners in
+ * top-left, top-right, bottom-right, bottom-left order.
+ */
+export const detectDocumentQuad = (source: CanvasImageSource, width: number, height: number): Quad => {
+  const scale = DETECT_SIZE / Math.max(width, height);
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return DEFAULT_QUAD;
+  ctx.filter = 'blur(1px)';
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const { data } = ctx.getImageData(0, 0, w, h);
+  const gray = new Uint8Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  const threshold = otsuThreshold(gray);
+
+  // Largest 4-connected bright component
+  const labels = new Int32Array(w * h).fill(-1);
+  let bestLabel = -1;
+  let bestSize = 0;
+  const stack: number[] = [];
+  for (let start = 0, label = 0; start < gray.length; start++) {
+    if (gray[start] <= threshold || labels[start] !== -1) continue;
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % w;
+      const neighbours = [x > 0 ? i - 1 : -1, x < w - 1 ? i + 1 : -1, i - w, i + w];
+      for (const n of neighbours) {
+        if (n >= 0 && n < gray.length && labels[n] === -1 && gray[n] > threshold) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+    label++;
+  }
+  if (bestSize < w * h * 0.1) return DEFAULT_QUAD;
+
+  let tl = { x: 0, y: 0, score: Infinity };
+  let br = { x: 0, y: 0, score: -Infinity };
+  let tr = { x: 0, y: 0, score: -Infinity };
+  let bl = { x: 0, y: 0, score: -Infinity };
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== bestLabel) continue;
+    const x = i % w;
+    const y = Math.floor(i / w);
+    if (x + y < tl.score) tl = { x, y, score: x + y };
+    if (x + y > br.score) br = { x, y, score: x + y };
+    if (x - y > tr.score) tr = { x, y, score: x - y };
+    if (y - x > bl.score) bl = { x, y, score: y - x };
+  }
+  const norm = (p: { x: number; y: number }): Point => ({ x: p.x / (w - 1 || 1), y: p.y / (h - 1 || 1) });
+  return [norm(tl), norm(tr), norm(br), norm(bl)];
+};
+
+// Solves A·x = b in place with partial pivoting
+const solve = (a: number[][], b: number[]) => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c < n; c++) a[r][c] -= f * a[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = b[r];
+    for (let c = r + 1; c < n; c++) sum -= a[r][c] * x[c];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+};
+
+// Homography mapping each `from` point onto the matching `to` point
+const homography = (from: Point[], to: Point[]) => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solve(a, b), 1];
+};
+
+const distance = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+
+/** Flattens the quad (normalized to the source size) into an upright page. */
+export const warpPerspective = (source: HTMLImageElement | HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const srcWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const srcHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const corners = quad.map(p => ({ x: p.x * srcWidth, y: p.y * srcHeight }));
+  const [tl, tr, br, bl] = corners;
+
+  let outWidth = Math.max(distance(tl, tr), distance(bl, br));
+  let outHeight = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, MAX_OUTPUT_SIZE / Math.max(outWidth, outHeight));
+  outWidth = Math.max(1, Math.round(outWidth * scale));
+  outHeight = Math.max(1, Math.round(outHeight * scale));
+
+  const srcCanvas = document.createElement('canvas');
+  srcCanvas.width = srcWidth;
+  srcCanvas.height = srcHeight;
+  const srcCtx = srcCanvas.getContext('2d', { willReadFrequently: true });
+  const out = document.createElement('canvas');
+  out.width = outWidth;
+  out.height = outHeight;
+  const outCtx = out.getContext('2d');
+  if (!srcCtx || !outCtx) return out;
+  srcCtx.drawImage(source, 0, 0);
+  const src = srcCtx.getImageData(0, 0, srcWidth, srcHeight).data;
+  const result = outCtx.createImageData(outWidth, outHeight);
+
+  const rect = [{ x: 0, y: 0 }, { x: outWidth, y: 0 }, { x: outWidth, y: outHeight }, { x: 0, y: outHeight }];
+  const [h0, h1, h2, h3, h4, h5, h6, h7, h8] = homography(rect, corners);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const d = h6 * x + h7 * y + h8;
+      const sx = (h0 * x + h1 * y + h2) / d;
+      const sy = (h3 * x + h4 * y + h5) / d;
+      const x0 = Math.min(srcWidth - 2, Math.max(0, Math.floor(sx)));
+      const y0 = Math.min(srcHeight - 2, Math.max(0, Math.floor(sy)));
+      const fx = Math.min(1, Math.max(0, sx - x0));
+      const fy = Math.min(1, Math.max(0, sy - y0));
+      const o = (y * outWidth + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const i00 = (y0 * srcWidth + x0) * 4 + c;
+        const i10 = i00 + 4;
+        const i01 = i00 + srcWidth * 4;
+        const i11 = i01 + 4;
+        result.data[o + c] =
+          src[i00] * (1 - fx) * (1 - fy) + src[i10] * fx * (1 - fy) + src[i01] * (1 - fx) * fy + src[i11] * fx * fy;
+      }
+    }
+  }
+  outCtx.putImageData(result, 0, 0);
+  return out;
+};
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { appendEditStep, canRedo, canUndo, emptyEditChain, getActivePath, getCurrentEditImage, redoEdit, selectEditStep, undoEdit } from './editChain';
+
+describe('edit chain', () => {
+  it('stacks edits on the current step', () => {
+    const chain = appendEditStep(appendEditStep(undefined, "Sepia", 'sepia.png'), "Crop", 'crop.png', true);
+    const [sepia, crop] = chain.steps;
+    assert.equal(sepia.parentId, null);
+    assert.equal(crop.parentId, sepia.id);
+    assert.equal(crop.masked, true);
+    assert.equal(sepia.masked, undefined);
+    assert.equal(getCurrentEditImage(chain), 'crop.png');
+    assert.deepEqual(getActivePath(chain), [sepia.id, crop.id]);
+  });
+
+  it('undoes back to the original and redoes forward again', () => {
+    let chain = appendEditStep(appendEditStep(emptyEditChain(), "Sepia", 'sepia.png'), "Crop", 'crop.png');
+    chain = undoEdit(undoEdit(chain));
+    assert.equal(chain.currentId, null);
+    assert.equal(getCurrentEditImage(chain), null);
+    assert.equal(canUndo(chain), false);
+
+    chain = redoEdit(redoEdit(chain));
+    assert.equal(getCurrentEditImage(chain), 'crop.png');
+    assert.equal(canRedo(chain), false);
+    assert.equal(redoEdit(chain), chain);
+  });
+
+  it('branches when editing from an earlier step and redoes into the newest branch', () => {
+    let chain = appendEditStep(appendEditStep(undefined, "Sepia", 'sepia.png'), "Crop", 'crop.png');
+    const [sepia, crop] = chain.steps;
+    chain = appendEditStep(undoEdit(chain), "Blur", 'blur.png');
+    const blur = chain.steps[2];
+    assert.equal(blur.parentId, sepia.id);
+    assert.deepEqual(getActivePath(chain), [sepia.id, blur.id]);
+    assert.equal(chain.steps.length, 3);
+
+    chain = redoEdit(undoEdit(chain));
+    assert.equal(chain.currentId, blur.id);
+
+    chain = selectEditStep(chain, crop.id);
+    assert.deepEqual(getActivePath(chain), [sepia.id, crop.id]);
+  });
+
+  it('has nothing to undo or redo without edits', () => {
+    assert.equal(canUndo(undefined), false);
+    assert.equal(canRedo(undefined), false);
+    assert.deepEqual(getActivePath(undefined), []);
+    assert.equal(getCurrentEditImage(emptyEditChain()), null);
+  });
+});
@@ -0,0 +1,56 @@
+import { EditChain, EditStep } from '../types';
+
+// Edits form a tree rooted at the original capture (parentId === null).
+// `currentId` is the step being viewed; null means the original.
+
+export const emptyEditChain = (): EditChain => ({ steps: [], currentId: null });
+
+export const getStep = (chain: EditChain | undefined, id: string | null): EditStep | undefined =>
+  id ? chain?.steps.find(s => s.id === id) : undefined;
+
+export const getCurrentEditImage = (chain: EditChain | undefined): string | null =>
+  getStep(chain, chain?.currentId ?? null)?.image ?? null;
+
+/** Adds a step on top of the current one. Editing from an earlier step starts a new branch. */
+export const appendEditStep = (chain: EditChain | undefined, prompt: string, image: string, masked = false): EditChain => {
+  const base = chain || emptyEditChain();
+  const step: EditStep = {
+    id: `${Date.now()}-${base.steps.length}`,
+    parentId: base.currentId,
+    prompt,
+    image,
+    timestamp: Date.now(),
+    masked: masked || undefined
+  };
+  return { steps: [...base.steps, step], currentId: step.id };
+};
+
+export const selectEditStep = (chain: EditChain, id: string | null): EditChain => ({ ...chain, currentId: id });
+
+export const canUndo = (chain: EditChain | undefined) => !!chain?.currentId;
+
+export const undoEdit = (chain: EditChain): EditChain =>
+  selectEditStep(chain, getStep(chain, chain.currentId)?.parentId ?? null);
+
+// Redo follows the newest child, which is the branch the user most recently worked on.
+// Steps are appended in order, so on equal timestamps the later one is newer.
+const newestChild = (chain: EditChain | undefined, id: string | null) =>
+  chain?.steps.filter(s => s.parentId === id).sort((a, b) => a.timestamp - b.timestamp).at(-1);
+
+export const canRedo = (chain: EditChain | undefined) => !!newestChild(chain, chain?.currentId ?? null);
+
+export const redoEdit = (chain: EditChain): EditChain => {
+  const child = newestChild(chain, chain.currentId);
+  return child ? selectEditStep(chain, child.id) : chain;
+};
+
+/** Step ids from the original up to (and including) the current step. */
+export const getActivePath = (chain: EditChain | undefined): string[] => {
+  const path: string[] = [];
+  let step = getStep(chain, chain?.currentId ?? null);
+  while (step) {
+    path.unshift(step.id);
+    step = getStep(chain, step.parentId);
+  }
+  return path;
+};
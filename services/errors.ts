@@ -0,0 +1,108 @@
+import { AppError, RecoveryAction, ServiceErrorKind } from '../types';
+import { RequestTimeoutError } from './requests';
+
+export const ERROR_DETAILS: Record<ServiceErrorKind, { detail: string; action: RecoveryAction }> = {
+  auth: { detail: "The API key is missing or was rejected. Check it in Settings.", action: 'settings' },
+  'rate-limit': { detail: "The service is rate limiting requests or the quota is used up. Wait a moment and try again.", action: 'retry' },
+  safety: { detail: "The request was blocked by the model's safety filters. Try a different photo or prompt.", action: 'rephrase' },
+  network: { detail: "The service could not be reached. Check your connection and try again.", action: 'retry' },
+  timeout: { detail: "The service took too long to answer. Try again, or allow more time in Settings.", action: 'retry' },
+  malformed: { detail: "The model sent back a response that could not be read. Trying again usually helps.", action: 'retry' },
+  unavailable: { detail: "The service is temporarily unavailable. Try again in a little while.", action: 'retry' },
+  budget: { detail: "The usage budget is used up. Raise it in the usage dashboard or wait for the next period.", action: 'usage' },
+  unknown: { detail: "Something unexpected went wrong.", action: 'retry' }
+};
+
+// Worth retrying without asking: the same request may well succeed a moment later
+const TRANSIENT_KINDS: ServiceErrorKind[] = ['rate-limit', 'network', 'malformed', 'unavailable'];
+
+export class ServiceError extends Error {
+  kind: ServiceErrorKind;
+  retryAfter?: number; // ms the service asked us to wait
+
+  constructor(kind: ServiceErrorKind, message = ERROR_DETAILS[kind].detail, options: { cause?: unknown; retryAfter?: number } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+export const isTransient = (kind: ServiceErrorKind) => TRANSIENT_KINDS.includes(kind);
+
+export const kindFromStatus = (status: number): ServiceErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate-limit';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+/** Sorts anything a provider, SDK or fetch threw into a ServiceError. */
+export const classifyError = (err: unknown): ServiceError => {
+  if (err instanceof ServiceError) return err;
+  if (err instanceof RequestTimeoutError) return new ServiceError('timeout', err.message, { cause: err });
+
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+  const create = (kind: ServiceErrorKind) => new ServiceError(kind, undefined, { cause: err });
+
+  // Gemini reports a bad key as a plain 400
+  if (/api[ _-]?key/i.test(message) && (!status || status < 500)) return create('auth');
+  if (status && kindFromStatus(status) !== 'unknown') return create(kindFromStatus(status));
+  if (/RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) return create('rate-limit');
+  if (/safety|blocked|prohibited/i.test(message)) return create('safety');
+  if (err instanceof SyntaxError) return create('malformed');
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(message)) return create('network');
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return create('network');
+  return create('unknown');
+};
+
+/** The user-facing version of a failed request, titled with what was being attempted. */
+export const describeError = (err: unknown, title: string): AppError => {
+  const error = classifyError(err);
+  const detail = error.kind === 'unknown' ? ERROR_DETAILS.unknown.detail : error.message;
+  return { title, detail, kind: error.kind, action: ERROR_DETAILS[error.kind].action };
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelay: number; // ms before the first retry; doubled on every attempt
+  maxDelay: number;
+  except?: ServiceErrorKind[]; // Transient kinds this caller would rather get back at once
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelay: 1000,
+  maxDelay: 15000
+};
+
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * Runs `attempt`, retrying transient failures with exponential backoff and
+ * jitter. Anything else, or the last failure, is rethrown as a ServiceError.
+ * Aborting the signal stops retrying straight away.
+ */
+export const withRetry = async <T>(attempt: () => Promise<T>, signal?: AbortSignal, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const error = classifyError(err);
+      if (!isTransient(error.kind) || options.except?.includes(error.kind) || i >= options.retries) throw error;
+      const backoff = Math.min(options.maxDelay, options.baseDelay * 2 ** i) * (0.5 + Math.random() / 2);
+      console.warn(`Retrying after ${error.kind} error (attempt ${i + 1} of ${options.retries})`, err);
+      await wait(error.retryAfter ?? backoff, signal);
+    }
+  }
+};
@@ -0,0 +1,17 @@
+import { StructuredValue } from '../types';
+
+// Plain-text formatting shared by the viewer and the report builder
+
+/** Seconds as M:SS, as shown on the video timeline. */
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const formatFieldName = (name: string) =>
+  name.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+export const formatFieldValue = (value: StructuredValue) =>
+  Array.isArray(value) ? value.join(', ') : typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HistoryFilter, HistoryItem } from '../types';
+import { EMPTY_FILTER, collectTags, filterHistory, groupByDay, isFilterActive, normalizeTag } from './historySearch';
+
+const at = (day: string, time = '12:00') => new Date(`${day}T${time}:00`).getTime();
+
+const item = (id: string, patch: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  thumbnail: '',
+  mimeType: 'image/jpeg',
+  timestamp: at('2026-10-19'),
+  type: 'image',
+  size: 1000,
+  ...patch
+});
+
+const HISTORY = [
+  item('mug', { analysis: { description: "A mug of coffee on a desk", points: ["Ceramic mug", "Still steaming"] }, tags: ['kitchen'], favorite: true }),
+  item('receipt', { pages: [{ id: 'p1', text: "Coffee 3.50\nTotal 3.50" }], tags: ['receipts', 'kitchen'], timestamp: at('2026-10-18', '23:59') }),
+  item('walk', { type: 'video', mimeType: 'video/webm', analysis: { description: "A walk in the park", points: [] }, timestamp: at('2026-10-10') })
+];
+
+const search = (patch: Partial<HistoryFilter>) => filterHistory(HISTORY, { ...EMPTY_FILTER, ...patch }).map(i => i.id);
+
+describe('filterHistory', () => {
+  it('keeps everything without a filter', () => {
+    assert.deepEqual(search({}), ['mug', 'receipt', 'walk']);
+    assert.equal(isFilterActive(EMPTY_FILTER), false);
+    assert.equal(isFilterActive({ ...EMPTY_FILTER, query: '  ' }), false);
+  });
+
+  it('needs every search word somewhere in the text, tags or pages', () => {
+    assert.deepEqual(search({ query: 'coffee' }), ['mug', 'receipt']);
+    assert.deepEqual(search({ query: 'COFFEE steaming' }), ['mug']);
+    assert.deepEqual(search({ query: 'receipts total' }), ['receipt']);
+    assert.deepEqual(search({ query: 'coffee park' }), []);
+  });
+
+  it('tells documents, images and videos apart', () => {
+    assert.deepEqual(search({ type: 'document' }), ['receipt']);
+    assert.deepEqual(search({ type: 'image' }), ['mug']);
+    assert.deepEqual(search({ type: 'video' }), ['walk']);
+  });
+
+  it('filters by favorite and tag', () => {
+    assert.deepEqual(search({ favoritesOnly: true }), ['mug']);
+    assert.deepEqual(search({ tag: 'kitchen' }), ['mug', 'receipt']);
+    assert.deepEqual(search({ tag: 'receipts', favoritesOnly: true }), []);
+  });
+
+  it('includes both ends of a date range as whole local days', () => {
+    assert.deepEqual(search({ from: '2026-10-18' }), ['mug', 'receipt']);
+    assert.deepEqual(search({ to: '2026-10-18' }), ['receipt', 'walk']);
+    assert.deepEqual(search({ from: '2026-10-11', to: '2026-10-18' }), ['receipt']);
+    assert.equal(isFilterActive({ ...EMPTY_FILTER, to: '2026-10-18' }), true);
+  });
+});
+
+describe('tags', () => {
+  it('normalizes what the user types', () => {
+    assert.equal(normalizeTag('  Road Trip  2026 '), 'road-trip-2026');
+  });
+
+  it('lists the most used first, then alphabetically', () => {
+    assert.deepEqual(collectTags([...HISTORY, item('pan', { tags: ['cooking'] })]), ['kitchen', 'cooking', 'receipts']);
+  });
+});
+
+describe('groupByDay', () => {
+  it('groups consecutive captures by calendar day, naming today and yesterday', () => {
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 12).getTime();
+    const day = 24 * 60 * 60 * 1000;
+    const groups = groupByDay([
+      item('a', { timestamp: today + 60_000 }),
+      item('b', { timestamp: today }),
+      item('c', { timestamp: today - day }),
+      item('d', { timestamp: today - 3 * day }),
+      item('e', { timestamp: today - 3 * day - 60_000 })
+    ]);
+    assert.deepEqual(groups.map(g => [g.label, g.items.map(i => i.id)]), [
+      ['Today', ['a', 'b']],
+      ['Yesterday', ['c']],
+      [groups[2].label, ['d', 'e']]
+    ]);
+    assert.doesNotMatch(groups[2].label, /Today|Yesterday/);
+  });
+});
@@ -0,0 +1,74 @@
+import { HistoryFilter, HistoryItem } from '../types';
+
+export const EMPTY_FILTER: HistoryFilter = {
+  query: '',
+  type: 'all',
+  favoritesOnly: false,
+  tag: null,
+  from: '',
+  to: ''
+};
+
+export const isFilterActive = (filter: HistoryFilter) =>
+  !!filter.query.trim() || filter.type !== 'all' || filter.favoritesOnly || !!filter.tag || !!filter.from || !!filter.to;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+const searchableText = (item: HistoryItem) =>
+  [
+    item.analysis?.description,
+    ...(item.analysis?.points || []),
+    ...(item.tags || []),
+    ...(item.pages || []).map(p => p.text)
+  ].filter(Boolean).join('\n').toLowerCase();
+
+// Date inputs give local calendar days, so bounds are built in local time
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`).getTime();
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`).getTime();
+
+/** Every search word has to appear somewhere in the capture's text or tags. */
+export const filterHistory = (items: HistoryItem[], filter: HistoryFilter): HistoryItem[] => {
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filter.from ? startOfDay(filter.from) : -Infinity;
+  const to = filter.to ? endOfDay(filter.to) : Infinity;
+
+  return items.filter(item => {
+    if (filter.favoritesOnly && !item.favorite) return false;
+    if (filter.tag && !item.tags?.includes(filter.tag)) return false;
+    if (filter.type === 'document' && !item.pages) return false;
+    if (filter.type === 'image' && (item.type !== 'image' || item.pages)) return false;
+    if (filter.type === 'video' && item.type !== 'video') return false;
+    if (item.timestamp < from || item.timestamp > to) return false;
+    if (!words.length) return true;
+    const text = searchableText(item);
+    return words.every(w => text.includes(w));
+  });
+};
+
+/** Tags in use across history, most used first. */
+export const collectTags = (items: HistoryItem[]): string[] => {
+  const counts = new Map<string, number>();
+  items.forEach(item => item.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+const dayLabel = (timestamp: number) => {
+  const day = new Date(timestamp).toDateString();
+  const today = new Date();
+  if (day === today.toDateString()) return 'Today';
+  today.setDate(today.getDate() - 1);
+  if (day === today.toDateString()) return 'Yesterday';
+  return new Date(timestamp).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/** Groups items (already sorted newest first) into consecutive calendar days. */
+export const groupByDay = (items: HistoryItem[]): { label: string; items: HistoryItem[] }[] => {
+  const groups: { label: string; items: HistoryItem[] }[] = [];
+  items.forEach(item => {
+    const label = dayLabel(item.timestamp);
+    const last = groups[groups.length - 1];
+    if (last?.label === label) last.items.push(item);
+    else groups.push({ label, items: [item] });
+  });
+  return groups;
+};
@@ -0,0 +1,276 @@
+import { HistoryItem, ImageFile, StorageUsage } from '../types';
+import { blobToBase64, createThumbnail, dataUrlToBlob, hashBlob, mediaBlob } from './media';
+import { usageForItem } from './usage';
+
+const DB_NAME = 'nanoLens';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'items';
+const MEDIA_STORE = 'media';
+
+// Non-favorite, analyzed captures kept before the oldest are evicted
+export const HISTORY_LIMIT = 50;
+
+const LEGACY_KEY = 'nanoLensHistory';
+const MIGRATED_KEY = 'nanoLensHistoryMigrated';
+
+interface MediaRecord {
+  id: string;
+  blob: Blob;
+  edits?: Record<string, Blob>; // Edit step images keyed by step id
+  pages?: Record<string, Blob>; // Document page images keyed by page id
+}
+
+// An entry with its media as Blobs, as moved in and out of archives
+export interface HistoryEntryData {
+  item: HistoryItem;
+  blob: Blob;
+  edits: Record<string, Blob>;
+  pages: Record<string, Blob>;
+}
+
+export class HistoryQuotaError extends Error {
+  constructor() {
+    super("Device storage is full. Delete some captures to keep saving history.");
+    this.name = 'HistoryQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+          db.createObjectStore(ITEMS_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Runs `work` inside a single transaction and resolves once it has committed
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  work: (items: IDBObjectStore, media: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ITEMS_STORE, MEDIA_STORE], mode);
+    const request = work(tx.objectStore(ITEMS_STORE), tx.objectStore(MEDIA_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onabort = () => reject(isQuotaError(tx.error) ? new HistoryQuotaError() : tx.error);
+    tx.onerror = () => reject(isQuotaError(tx.error) ? new HistoryQuotaError() : tx.error);
+  });
+};
+
+/** Lists history metadata (thumbnails only, no full media), newest first. */
+export const listHistory = async (): Promise<HistoryItem[]> => {
+  const items = await withStores<HistoryItem[]>('readonly', (store) => store.getAll());
+  return (items || []).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Stores the media (and any edit step images) as Blobs alongside a lightweight
+ * metadata record. Saving an existing id replaces it, keeping its tags and favorite flag.
+ * An unanalyzed capture is pending (queued for deferred analysis) unless `pending` says
+ * otherwise; without it, an existing entry keeps its current state.
+ */
+export const saveHistoryItem = async (file: ImageFile, pending?: boolean): Promise<HistoryItem> => {
+  const existing = await withStores<HistoryItem | undefined>('readonly', (items) => items.get(file.id));
+  const blob = mediaBlob(file);
+  const editBlobs: Record<string, Blob> = {};
+  file.edits?.steps.forEach(step => {
+    editBlobs[step.id] = dataUrlToBlob(step.image);
+  });
+  const pageBlobs: Record<string, Blob> = {};
+  file.pages?.forEach(page => {
+    pageBlobs[page.id] = dataUrlToBlob(page.image);
+  });
+  const extraSize = [...Object.values(editBlobs), ...Object.values(pageBlobs)].reduce((sum, b) => sum + b.size, 0);
+
+  const item: HistoryItem = {
+    id: file.id,
+    thumbnail: await createThumbnail(blob, file.type),
+    mimeType: file.mimeType,
+    timestamp: file.timestamp,
+    type: file.type,
+    size: blob.size + extraSize,
+    analysis: file.analysis,
+    chat: file.chat,
+    diagnostics: file.diagnostics,
+    preset: file.preset,
+    pages: file.pages?.map(({ image, ...meta }) => meta),
+    edits: file.edits && {
+      steps: file.edits.steps.map(({ image, ...meta }) => meta),
+      currentId: file.edits.currentId
+    },
+    tags: existing?.tags,
+    favorite: existing?.favorite,
+    hash: file.hash || existing?.hash || await hashBlob(blob),
+    pending: (!file.analysis && (pending ?? existing?.pending ?? true)) || undefined,
+    usage: usageForItem(file.id, existing?.usage)
+  };
+  const record: MediaRecord = { id: file.id, blob, edits: editBlobs, pages: pageBlobs };
+
+  await withStores('readwrite', (items, media) => {
+    media.put(record);
+    items.put(item);
+  });
+  return item;
+};
+
+/** Changes the user-owned fields of an entry without touching its media. */
+export const updateHistoryMeta = async (id: string, patch: Pick<HistoryItem, 'tags' | 'favorite' | 'pending'>): Promise<HistoryItem | undefined> => {
+  const item = await withStores<HistoryItem | undefined>('readonly', (items) => items.get(id));
+  if (!item) return undefined;
+  const updated = { ...item, ...patch };
+  await withStores('readwrite', (items) => {
+    items.put(updated);
+  });
+  return updated;
+};
+
+/** Evicts the oldest non-favorite entries beyond HISTORY_LIMIT and returns their ids. Pending captures are never evicted. */
+export const pruneHistory = async (): Promise<string[]> => {
+  const evicted = (await listHistory())
+    .filter(item => !item.favorite && !item.pending)
+    .slice(HISTORY_LIMIT)
+    .map(item => item.id);
+  if (evicted.length) {
+    await withStores('readwrite', (items, media) => {
+      evicted.forEach(id => {
+        media.delete(id);
+        items.delete(id);
+      });
+    });
+  }
+  return evicted;
+};
+
+export const readHistoryEntry = async (item: HistoryItem): Promise<HistoryEntryData> => {
+  const record = await withStores<MediaRecord | undefined>('readonly', (_, media) => media.get(item.id));
+  if (!record) {
+    throw new Error(`Media for history item ${item.id} is missing`);
+  }
+  return { item, blob: record.blob, edits: record.edits || {}, pages: record.pages || {} };
+};
+
+/** Stores an entry exactly as given, for imports where the metadata is already complete. */
+export const writeHistoryEntry = async ({ item, blob, edits, pages }: HistoryEntryData): Promise<void> => {
+  const record: MediaRecord = { id: item.id, blob, edits, pages };
+  await withStores('readwrite', (items, media) => {
+    media.put(record);
+    items.put(item);
+  });
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await withStores('readwrite', (items, media) => {
+    media.delete(id);
+    items.delete(id);
+  });
+};
+
+/** Loads the full media for a history entry, ready to be shown in the viewer. */
+export const loadHistoryFile = async (item: HistoryItem): Promise<ImageFile> => {
+  const record = await withStores<MediaRecord | undefined>('readonly', (_, media) => media.get(item.id));
+  if (!record) {
+    throw new Error(`Media for history item ${item.id} is missing`);
+  }
+  const preview = await blobToBase64(record.blob);
+  const steps = await Promise.all((item.edits?.steps || [])
+    .filter(meta => record.edits?.[meta.id])
+    .map(async meta => ({ ...meta, image: await blobToBase64(record.edits![meta.id]) })));
+  const pages = item.pages && await Promise.all(item.pages
+    .filter(meta => record.pages?.[meta.id])
+    .map(async meta => ({ ...meta, image: await blobToBase64(record.pages![meta.id]) })));
+
+  return {
+    id: item.id,
+    preview,
+    raw: preview.split(',')[1],
+    blob: item.type === 'video' ? record.blob : undefined,
+    mimeType: item.mimeType,
+    hash: item.hash,
+    timestamp: item.timestamp,
+    type: item.type,
+    analysis: item.analysis,
+    chat: item.chat,
+    diagnostics: item.diagnostics,
+    preset: item.preset,
+    pages,
+    edits: item.edits && { steps, currentId: item.edits.currentId }
+  };
+};
+
+/**
+ * Moves history written by older versions (a base64 array in localStorage)
+ * into IndexedDB. Entries that fail to move stay under the legacy key and are
+ * retried next launch; the key is removed once every entry has moved.
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+  if (localStorage.getItem(MIGRATED_KEY)) return 0;
+
+  const saved = localStorage.getItem(LEGACY_KEY);
+  let migrated = 0;
+  if (saved) {
+    let legacy: ImageFile[];
+    try {
+      legacy = JSON.parse(saved);
+      if (!Array.isArray(legacy)) legacy = [];
+    } catch (e) {
+      // Left in place rather than lost; nothing is marked migrated
+      console.error("Failed to parse legacy history", e);
+      return 0;
+    }
+    const remaining: ImageFile[] = [];
+    for (const [index, file] of legacy.entries()) {
+      if (!file?.id || !file.raw) continue;
+      try {
+        await saveHistoryItem(file);
+        migrated++;
+      } catch (e) {
+        console.error(`Failed to migrate history item ${file.id}`, e);
+        if (e instanceof HistoryQuotaError) {
+          remaining.push(...legacy.slice(index));
+          break;
+        }
+        remaining.push(file);
+      }
+    }
+    // Whatever couldn't be moved stays under the legacy key for the next launch
+    if (remaining.length) {
+      try {
+        localStorage.setItem(LEGACY_KEY, JSON.stringify(remaining));
+      } catch (e) {
+        console.error("Failed to keep unmigrated history", e);
+      }
+      return migrated;
+    }
+    localStorage.removeItem(LEGACY_KEY);
+  }
+  localStorage.setItem(MIGRATED_KEY, '1');
+  return migrated;
+};
+
+/** Reports origin storage usage, or null where the Storage API is unavailable. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { QueueJob } from '../types';
+import { createJobQueue } from './jobQueue';
+
+// A job that finishes when the test says so
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (err: Error) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('job queue', () => {
+  it('runs at most `concurrency` jobs at once, in order', async () => {
+    const pending = new Map<string, ReturnType<typeof deferred>>();
+    let jobs: QueueJob[] = [];
+    const queue = createJobQueue<string>(2, payload => {
+      const job = deferred();
+      pending.set(payload, job);
+      return job.promise;
+    }, snapshot => { jobs = snapshot; });
+
+    ['a', 'b', 'c'].forEach(name => queue.add(name, name));
+    assert.deepEqual(jobs.map(j => j.status), ['running', 'running', 'queued']);
+    assert.deepEqual([...pending.keys()], ['a', 'b']);
+
+    pending.get('a')!.resolve();
+    await settle();
+    assert.deepEqual(jobs.map(j => j.status), ['done', 'running', 'running']);
+    assert.equal(jobs[0].progress, 1);
+
+    pending.get('b')!.resolve();
+    pending.get('c')!.resolve();
+    await settle();
+    assert.ok(jobs.every(j => j.status === 'done'));
+
+    queue.clearFinished();
+    assert.deepEqual(jobs, []);
+  });
+
+  it('reports progress and keeps failures for a retry', async () => {
+    const error = console.error;
+    console.error = () => {};
+    try {
+      let attempts = 0;
+      let jobs: QueueJob[] = [];
+      const queue = createJobQueue<string>(1, async (_, reportProgress) => {
+        reportProgress(0.5);
+        if (attempts++ === 0) throw new Error("Offline");
+      }, snapshot => { jobs = snapshot; });
+
+      queue.add('photo.jpg', 'photo');
+      await settle();
+      assert.equal(jobs[0].status, 'failed');
+      assert.equal(jobs[0].error, "Offline");
+      assert.equal(jobs[0].progress, 0.5);
+
+      queue.retry(jobs[0].id);
+      await settle();
+      assert.equal(jobs[0].status, 'done');
+      assert.equal(jobs[0].error, undefined);
+      assert.equal(attempts, 2);
+    } finally {
+      console.error = error;
+    }
+  });
+
+  it('leaves running jobs alone when asked to remove them', async () => {
+    const job = deferred();
+    let jobs: QueueJob[] = [];
+    const queue = createJobQueue<string>(1, () => job.promise, snapshot => { jobs = snapshot; });
+
+    queue.add('a.jpg', 'a');
+    queue.add('b.jpg', 'b');
+    queue.remove(jobs[0].id);
+    queue.remove(jobs[1].id);
+    assert.deepEqual(jobs.map(j => j.name), ['a.jpg']);
+
+    // Only failed jobs can be retried
+    queue.retry(jobs[0].id);
+    assert.equal(jobs[0].status, 'running');
+
+    job.resolve();
+    await settle();
+    assert.equal(jobs[0].status, 'done');
+  });
+});
@@ -0,0 +1,81 @@
+import { QueueJob } from '../types';
+
+export type JobRunner<T> = (payload: T, reportProgress: (progress: number) => void) => Promise<void>;
+
+export interface JobQueue<T> {
+  add: (name: string, payload: T) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+}
+
+/**
+ * Runs jobs with at most `concurrency` in flight. Every state change is
+ * reported through `onChange` with a fresh snapshot for rendering.
+ */
+export const createJobQueue = <T>(
+  concurrency: number,
+  run: JobRunner<T>,
+  onChange: (jobs: QueueJob[]) => void
+): JobQueue<T> => {
+  let jobs: QueueJob[] = [];
+  const payloads = new Map<string, T>();
+  let active = 0;
+  let counter = 0;
+
+  const emit = () => onChange([...jobs]);
+
+  const update = (id: string, patch: Partial<QueueJob>) => {
+    jobs = jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+    emit();
+  };
+
+  const pump = () => {
+    while (active < concurrency) {
+      const next = jobs.find(j => j.status === 'queued');
+      if (!next) return;
+      active++;
+      update(next.id, { status: 'running', progress: 0, error: undefined });
+
+      run(payloads.get(next.id) as T, progress => update(next.id, { progress }))
+        .then(() => {
+          update(next.id, { status: 'done', progress: 1 });
+          payloads.delete(next.id);
+        })
+        .catch(err => {
+          console.error(`Job ${next.name} failed`, err);
+          update(next.id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+        })
+        .finally(() => {
+          active--;
+          pump();
+        });
+    }
+  };
+
+  return {
+    add: (name, payload) => {
+      const id = `${Date.now()}-${counter++}`;
+      payloads.set(id, payload);
+      jobs = [...jobs, { id, name, status: 'queued', progress: 0 }];
+      emit();
+      pump();
+    },
+    retry: (id) => {
+      if (!jobs.some(j => j.id === id && j.status === 'failed')) return;
+      update(id, { status: 'queued', progress: 0, error: undefined });
+      pump();
+    },
+    remove: (id) => {
+      if (jobs.some(j => j.id === id && j.status === 'running')) return;
+      payloads.delete(id);
+      jobs = jobs.filter(j => j.id !== id);
+      emit();
+    },
+    clearFinished: () => {
+      jobs.filter(j => j.status === 'done').forEach(j => payloads.delete(j.id));
+      jobs = jobs.filter(j => j.status !== 'done');
+      emit();
+    }
+  };
+};
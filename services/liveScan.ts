@@ -0,0 +1,140 @@
+import { LiveScanStatus } from '../types';
+import { canvasToBlob } from './media';
+
+export interface LiveScanOptions {
+  sampleInterval: number; // ms between change checks
+  changeThreshold: number; // Difference from the last analyzed frame that counts as a new scene
+  stillThreshold: number; // Frame-to-frame difference below which the view is holding still
+  stillFrames: number; // Consecutive still samples needed before analyzing
+  minInterval: number; // ms between analysis requests, whatever the scene does
+}
+
+export const DEFAULT_LIVE_SCAN_OPTIONS: LiveScanOptions = {
+  sampleInterval: 250,
+  changeThreshold: 0.08,
+  stillThreshold: 0.02,
+  stillFrames: 3,
+  minInterval: 4000
+};
+
+export interface LiveScanner {
+  stop: () => void;
+}
+
+// Tiny grayscale thumbnails are enough to tell a new scene from hand shake
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 24;
+
+/** Mean absolute luma difference between two samples, from 0 (same) to 1. */
+export const frameDifference = (a: Uint8Array, b: Uint8Array) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / (a.length * 255);
+};
+
+/**
+ * Watches a playing camera stream and calls `analyze` with a full-resolution
+ * frame once the scene has changed since the last analysis and then held
+ * still. At most one request is in flight, and requests are spaced by
+ * `minInterval`. Stopping the scanner aborts the request in flight.
+ */
+export const createLiveScanner = (
+  video: HTMLVideoElement,
+  analyze: (frame: Blob, signal: AbortSignal) => Promise<void>,
+  onStatus: (status: LiveScanStatus) => void,
+  options: LiveScanOptions = DEFAULT_LIVE_SCAN_OPTIONS
+): LiveScanner => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  let previous: Uint8Array | null = null;
+  let analyzed: Uint8Array | null = null;
+  let stillCount = 0;
+  let busy = false;
+  let lastRequest = 0;
+  let stopped = false;
+  let inFlight: AbortController | null = null;
+  let status: LiveScanStatus | null = null;
+
+  const setStatus = (next: LiveScanStatus) => {
+    if (next === status) return;
+    status = next;
+    onStatus(next);
+  };
+
+  const sample = (): Uint8Array | null => {
+    if (!ctx || video.readyState < 2 || !video.videoWidth) return null;
+    ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const gray = new Uint8Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    }
+    return gray;
+  };
+
+  const grabFrame = () => {
+    const frame = document.createElement('canvas');
+    frame.width = video.videoWidth;
+    frame.height = video.videoHeight;
+    frame.getContext('2d')?.drawImage(video, 0, 0);
+    return canvasToBlob(frame, 'image/jpeg', 0.92);
+  };
+
+  const run = async (current: Uint8Array) => {
+    busy = true;
+    lastRequest = Date.now();
+    analyzed = current;
+    stillCount = 0;
+    setStatus('analyzing');
+    inFlight = new AbortController();
+    try {
+      await analyze(await grabFrame(), inFlight.signal);
+    } catch (e) {
+      console.warn("Live analysis failed", e);
+    } finally {
+      inFlight = null;
+      busy = false;
+      if (!stopped) setStatus('watching');
+    }
+  };
+
+  const tick = () => {
+    if (stopped || busy || document.hidden) return;
+    const current = sample();
+    if (!current) return;
+
+    const motion = previous ? frameDifference(current, previous) : 1;
+    previous = current;
+    const changed = !analyzed || frameDifference(current, analyzed) > options.changeThreshold;
+    if (!changed) {
+      stillCount = 0;
+      setStatus('watching');
+      return;
+    }
+
+    stillCount = motion < options.stillThreshold ? stillCount + 1 : 0;
+    if (stillCount < options.stillFrames) {
+      setStatus(stillCount ? 'settling' : 'moving');
+      return;
+    }
+    if (Date.now() - lastRequest < options.minInterval) {
+      setStatus('settling');
+      return;
+    }
+    run(current);
+  };
+
+  const timer = window.setInterval(tick, options.sampleInterval);
+  setStatus('watching');
+
+  return {
+    stop: () => {
+      stopped = true;
+      window.clearInterval(timer);
+      inFlight?.abort();
+    }
+  };
+};
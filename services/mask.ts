@@ -0,0 +1,70 @@
+// Masks are PNGs at the source image's resolution: white marks the region to
+// edit, black the region to keep.
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable");
+  return { canvas, ctx };
+};
+
+/**
+ * Pastes the masked region of `edited` onto `original` at the original's full
+ * resolution, so pixels outside the mask are untouched by the model.
+ */
+export const compositeMasked = async (original: string, edited: string, mask: string, feather = 4): Promise<string> => {
+  const [base, result, maskImg] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+
+  // Turn the black/white mask into alpha, softened so the seam isn't visible. The blur is
+  // multiplied by the hard mask so the feather only fades inward and nothing outside changes.
+  const hard = createCanvas(width, height);
+  hard.ctx.drawImage(maskImg, 0, 0, width, height);
+  const hardPixels = hard.ctx.getImageData(0, 0, width, height).data;
+  const alpha = createCanvas(width, height);
+  alpha.ctx.filter = `blur(${feather}px)`;
+  alpha.ctx.drawImage(maskImg, 0, 0, width, height);
+  const pixels = alpha.ctx.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = Math.round(pixels.data[i] * hardPixels[i] / 255);
+  }
+  alpha.ctx.putImageData(pixels, 0, 0);
+
+  // Models may return a different size, so scale the edit to match the original
+  const patch = createCanvas(width, height);
+  patch.ctx.drawImage(result, 0, 0, width, height);
+  patch.ctx.globalCompositeOperation = 'destination-in';
+  patch.ctx.drawImage(alpha.canvas, 0, 0);
+
+  const out = createCanvas(width, height);
+  out.ctx.drawImage(base, 0, 0);
+  out.ctx.drawImage(patch.canvas, 0, 0);
+  return out.canvas.toDataURL('image/png');
+};
+
+/** Converts a black/white mask to the OpenAI convention (transparent = editable). */
+export const toAlphaMask = async (mask: string): Promise<Blob> => {
+  const img = await loadImage(mask);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = 255 - pixels.data[i];
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode mask")), 'image/png');
+  });
+};
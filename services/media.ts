@@ -0,0 +1,153 @@
+import { ImageFile } from '../types';
+
+// Helper to convert file/blob to base64
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// Raw base64 (no data URL header) without FileReader, so it also runs on the proxy server
+export const blobToRaw = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const createFileId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Helper to turn raw base64 (no data URL header) back into a Blob
+export const base64ToBlob = (raw: string, mimeType: string): Blob => {
+  const binary = atob(raw);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/** The original media of a capture: the stored Blob for videos, decoded base64 otherwise. */
+export const mediaBlob = (file: Pick<ImageFile, 'blob' | 'raw' | 'mimeType'>): Blob =>
+  file.blob || base64ToBlob(file.raw, file.mimeType);
+
+/** Hex-encoded SHA-256 of a blob's bytes. */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode image")), type, quality);
+  });
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, raw] = dataUrl.split(',');
+  return base64ToBlob(raw, header.match(/data:(.*?);/)?.[1] || 'application/octet-stream');
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+};
+
+const loadVideoFrame = (src: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      // Step slightly past zero so browsers that render black first frames give us a real one
+      video.currentTime = Math.min(0.1, video.duration || 0);
+    };
+    video.onseeked = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not decode video"));
+    video.src = src;
+  });
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error("Could not seek video"));
+    video.currentTime = time;
+  });
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, size: number) => {
+  const scale = Math.min(1, size / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/** Natural pixel size of an image or video data URL. */
+export const getMediaSize = async (src: string, type: 'image' | 'video'): Promise<{ width: number; height: number }> => {
+  if (type === 'video') {
+    const video = await loadVideoFrame(src);
+    return { width: video.videoWidth, height: video.videoHeight };
+  }
+  const img = await loadImage(src);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+/** Grabs small JPEG frames from a video at the given times (seconds). */
+export const captureVideoFrames = async (src: string, times: number[], size = 240): Promise<string[]> => {
+  const video = await loadVideoFrame(src);
+  const duration = isFinite(video.duration) ? video.duration : Infinity;
+  const frames: string[] = [];
+  for (const time of times) {
+    // Nudge past the boundary so we land inside the segment rather than on a cut
+    await seekTo(video, Math.min(time + 0.1, Math.max(0, duration - 0.1)));
+    frames.push(drawScaled(video, video.videoWidth, video.videoHeight, size));
+  }
+  return frames;
+};
+
+/**
+ * Renders a small JPEG data URL for the history drawer.
+ * Videos use their first frame; failures fall back to an empty string so the
+ * drawer can show its placeholder icon instead.
+ */
+export const createThumbnail = async (blob: Blob, type: 'image' | 'video', size = 160): Promise<string> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const source = type === 'video' ? await loadVideoFrame(url) : await loadImage(url);
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+    if (!width || !height) return "";
+
+    return drawScaled(source, width, height, size);
+  } catch (e) {
+    console.warn("Thumbnail generation failed", e);
+    return "";
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
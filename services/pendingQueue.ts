@@ -0,0 +1,75 @@
+import { HistoryItem, ServiceErrorKind } from '../types';
+import { classifyError } from './errors';
+import { onBackgroundSync } from './serviceWorker';
+
+// Sending the same capture again won't change the answer
+const PERMANENT_KINDS: ServiceErrorKind[] = ['safety', 'auth', 'malformed'];
+
+export interface PendingQueue {
+  flush: () => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Analyzes captures that were saved as pending, oldest first and one at a
+ * time. Runs whenever the device comes back online or the service worker
+ * relays a background sync, and on demand through `flush`. A network failure
+ * ends the run and leaves the rest for the next reconnect. A capture that can
+ * never succeed is handed to `dismiss` so it stops being retried; any other
+ * failure only skips it for this run.
+ */
+export const createPendingQueue = (
+  listPending: () => Promise<HistoryItem[]>,
+  analyze: (item: HistoryItem) => Promise<void>,
+  dismiss: (item: HistoryItem) => Promise<void>,
+  onFlushed: (analyzed: number, remaining: number) => void
+): PendingQueue => {
+  let running = false;
+  let stopped = false;
+
+  const flush = async () => {
+    if (running || stopped || !navigator.onLine) return;
+    running = true;
+    let analyzed = 0;
+    let dismissed = 0;
+    try {
+      const pending = (await listPending()).sort((a, b) => a.timestamp - b.timestamp);
+      for (const item of pending) {
+        if (stopped || !navigator.onLine) break;
+        try {
+          await analyze(item);
+          analyzed++;
+        } catch (err) {
+          console.warn(`Deferred analysis of ${item.id} failed`, err);
+          // The rest would fail the same way
+          const kind = classifyError(err).kind;
+          if (kind === 'network' || kind === 'budget') break;
+          if (PERMANENT_KINDS.includes(kind)) {
+            await dismiss(item);
+            dismissed++;
+          }
+        }
+      }
+      if (!stopped) onFlushed(analyzed, pending.length - analyzed - dismissed);
+    } catch (err) {
+      console.error("Could not run the pending queue", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const handleOnline = () => {
+    flush();
+  };
+  window.addEventListener('online', handleOnline);
+  const unsubscribe = onBackgroundSync(handleOnline);
+
+  return {
+    flush,
+    stop: () => {
+      stopped = true;
+      window.removeEventListener('online', handleOnline);
+      unsubscribe();
+    }
+  };
+};
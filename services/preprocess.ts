@@ -0,0 +1,112 @@
+import { ImageFile, PreprocessDiagnostics, PreprocessOptions } from '../types';
+import { blobToBase64, canvasToBlob, createFileId, hashBlob } from './media';
+
+export interface ProcessedImage {
+  preview: string;
+  raw: string;
+  mimeType: string;
+  hash: string;
+  diagnostics: PreprocessDiagnostics;
+}
+
+/** Reads the EXIF orientation tag from a JPEG, returning 1 when absent. */
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment holding "Exif\0\0" followed by a TIFF header
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// The browser applies EXIF orientation while decoding (createImageBitmap's default
+// 'from-image', and <img> by default), so the pixels come out upright
+const decode = async (blob: Blob): Promise<{ source: CanvasImageSource; width: number; height: number }> => {
+  try {
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    return { source: bitmap, width: bitmap.width, height: bitmap.height };
+  } catch {
+    const url = URL.createObjectURL(blob);
+    try {
+      const img = new Image();
+      img.src = url;
+      await img.decode();
+      return { source: img, width: img.naturalWidth, height: img.naturalHeight };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+/**
+ * The single step every image goes through before it reaches a provider:
+ * applies EXIF orientation, downscales, and re-encodes. Re-encoding through a
+ * canvas drops all metadata, GPS location included.
+ */
+export const preprocessImage = async (blob: Blob, options: PreprocessOptions): Promise<ProcessedImage> => {
+  const orientation = blob.type === 'image/jpeg' ? readExifOrientation(await blob.arrayBuffer()) : 1;
+  const { source, width, height } = await decode(blob);
+
+  const scale = Math.min(1, options.maxDimension / Math.max(width, height));
+  const w = Math.round(width * scale);
+  const h = Math.round(height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable");
+  ctx.drawImage(source, 0, 0, w, h);
+  if (source instanceof ImageBitmap) source.close();
+
+  const output = await canvasToBlob(canvas, options.codec, options.codec === 'image/png' ? undefined : options.quality);
+  const preview = await blobToBase64(output);
+  return {
+    preview,
+    raw: preview.split(',')[1],
+    // Browsers fall back to PNG for codecs they can't encode
+    mimeType: output.type || options.codec,
+    hash: await hashBlob(output),
+    diagnostics: {
+      originalBytes: blob.size,
+      processedBytes: output.size,
+      originalWidth: width,
+      originalHeight: height,
+      width: canvas.width,
+      height: canvas.height,
+      orientation
+    }
+  };
+};
+
+// Reads an uploaded file into the shape the viewer and providers expect
+export const fileToImageFile = async (file: File, options: PreprocessOptions): Promise<ImageFile> => {
+  const base = { id: createFileId(), timestamp: Date.now() };
+  if (file.type.startsWith('video')) {
+    const preview = await blobToBase64(file);
+    return { ...base, preview, raw: preview.split(',')[1], blob: file, mimeType: file.type, hash: await hashBlob(file), type: 'video' };
+  }
+  const processed = await preprocessImage(file, options);
+  return { ...base, ...processed, type: 'image' };
+};
@@ -0,0 +1,96 @@
+import { AnalysisPreset } from '../types';
+
+const PRESETS_KEY = 'nanoLensPresets';
+const SELECTED_KEY = 'nanoLensPreset';
+
+export const GENERAL_PRESET: AnalysisPreset = {
+  id: 'general',
+  name: 'General',
+  instruction: '',
+  fields: [],
+  builtIn: true
+};
+
+export const BUILT_IN_PRESETS: AnalysisPreset[] = [
+  GENERAL_PRESET,
+  {
+    id: 'plant',
+    name: 'Plant ID',
+    instruction: "Identify the plant species and assess its health and care needs.",
+    fields: [
+      { name: 'common_name', type: 'text', description: "Common name of the plant" },
+      { name: 'scientific_name', type: 'text', description: "Latin binomial" },
+      { name: 'confidence', type: 'number', description: "0 to 1" },
+      { name: 'toxic_to_pets', type: 'boolean', description: "Whether it is toxic to cats or dogs" },
+      { name: 'care_tips', type: 'list', description: "Short watering, light and soil tips" }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'nutrition',
+    name: 'Nutrition',
+    instruction: "Estimate the nutritional content of the food shown, per visible portion.",
+    fields: [
+      { name: 'dish', type: 'text', description: "Name of the dish or food items" },
+      { name: 'calories', type: 'number', description: "Estimated kcal for the visible portion" },
+      { name: 'protein_g', type: 'number', description: "Grams of protein" },
+      { name: 'carbs_g', type: 'number', description: "Grams of carbohydrate" },
+      { name: 'fat_g', type: 'number', description: "Grams of fat" },
+      { name: 'allergens', type: 'list', description: "Likely allergens" }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'safety',
+    name: 'Safety check',
+    instruction: "Inspect the equipment for safety hazards, damage, missing guards and incorrect use.",
+    fields: [
+      { name: 'equipment', type: 'text', description: "What the equipment is" },
+      { name: 'safe_to_use', type: 'boolean', description: "Whether it looks safe to operate as shown" },
+      { name: 'hazards', type: 'list', description: "Each hazard found" },
+      { name: 'recommended_actions', type: 'list', description: "What to fix before use" }
+    ],
+    builtIn: true
+  },
+  {
+    id: 'part',
+    name: 'What is this part',
+    instruction: "Identify this component or spare part, what it belongs to and how to find a replacement.",
+    fields: [
+      { name: 'part_name', type: 'text', description: "Name of the part" },
+      { name: 'used_in', type: 'text', description: "Device or assembly it belongs to" },
+      { name: 'markings', type: 'list', description: "Part numbers or markings visible on it" },
+      { name: 'search_terms', type: 'list', description: "Terms to search for a replacement" }
+    ],
+    builtIn: true
+  }
+];
+
+export const loadCustomPresets = (): AnalysisPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(p => p?.id && p.name).map(p => ({ ...p, instruction: p.instruction || '', fields: p.fields || [], builtIn: false }))
+      : [];
+  } catch (e) {
+    console.error("Failed to load presets", e);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: AnalysisPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
+
+export const loadSelectedPresetId = () => localStorage.getItem(SELECTED_KEY) || GENERAL_PRESET.id;
+
+export const saveSelectedPresetId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
+
+export const findPreset = (presets: AnalysisPreset[], id: string | undefined) =>
+  presets.find(p => p.id === id) || GENERAL_PRESET;
+
+// Field names become JSON keys in the model's reply
+export const isValidFieldName = (name: string) => /^[a-z][a-z0-9_]*$/i.test(name);
@@ -0,0 +1,254 @@
+import { FileState, FinishReason, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI, Modality, Part, Type } from '@google/genai';
+import { AnalysisPreset, AnalysisResult, EditResult, GeminiProviderSettings, GenerationOptions, PresetFieldType, RequestOptions, VisionProvider } from '../../types';
+import { ServiceError, wait } from '../errors';
+import { blobToRaw } from '../media';
+import { INLINE_MEDIA_LIMIT, UploadedFile, uploadResumable } from '../upload';
+import { IMAGE_ANALYSIS_PROMPT, MASKED_EDIT_INSTRUCTION, TEXT_EXTRACTION_PROMPT, VIDEO_ANALYSIS_PROMPT, chatContext, parseAnalysis, parsePartialAnalysis, parseStreamedAnalysis, withLanguage, withPreset } from './prompts';
+
+// Offered in settings; any other model id the API accepts works too
+export const GEMINI_ANALYSIS_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+export const GEMINI_EDIT_MODELS = ['gemini-2.5-flash-image'];
+
+const FILES_UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+const FILE_POLL_INTERVAL = 2000;
+
+const box2d = { type: Type.ARRAY, items: { type: Type.NUMBER } };
+
+const summaryProperties = {
+  description: { type: Type.STRING },
+  points: { type: Type.ARRAY, items: { type: Type.STRING } }
+};
+
+const videoAnalysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ...summaryProperties,
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { start: { type: Type.NUMBER }, end: { type: Type.NUMBER }, title: { type: Type.STRING }, summary: { type: Type.STRING } },
+        required: ['start', 'end', 'title', 'summary']
+      }
+    },
+    events: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { time: { type: Type.NUMBER }, label: { type: Type.STRING } },
+        required: ['time', 'label']
+      }
+    }
+  },
+  required: ['description', 'points']
+};
+
+const imageAnalysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ...summaryProperties,
+    objects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { label: { type: Type.STRING }, confidence: { type: Type.NUMBER }, box_2d: box2d },
+        required: ['label', 'confidence', 'box_2d']
+      }
+    },
+    text_regions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { text: { type: Type.STRING }, box_2d: box2d },
+        required: ['text', 'box_2d']
+      }
+    }
+  },
+  required: ['description', 'points']
+};
+
+const FIELD_SCHEMAS: Record<PresetFieldType, object> = {
+  text: { type: Type.STRING, nullable: true },
+  number: { type: Type.NUMBER, nullable: true },
+  boolean: { type: Type.BOOLEAN, nullable: true },
+  list: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true }
+};
+
+// Adds the preset's output fields to a base schema
+const withPresetSchema = (schema: typeof imageAnalysisSchema | typeof videoAnalysisSchema, preset?: AnalysisPreset): object => {
+  if (!preset?.fields.length) return schema;
+  const properties = Object.fromEntries(preset.fields.map(f => [f.name, { ...FIELD_SCHEMAS[f.type], description: f.description || undefined }]));
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      fields: { type: Type.OBJECT, properties, required: preset.fields.map(f => f.name) }
+    },
+    required: [...schema.required, 'fields']
+  };
+};
+
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT
+];
+
+// A blocked prompt or answer comes back as an ordinary response with no text
+const checkBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new ServiceError('safety');
+  }
+  return response;
+};
+
+/** `uploadEndpoint` replaces the Gemini files API for large clips, e.g. with a local stand-in. */
+export const createGeminiProvider = (settings: GeminiProviderSettings, generation: GenerationOptions, uploadEndpoint = ''): VisionProvider => {
+  const apiKey = settings.apiKey.trim();
+  const ai = apiKey ? new GoogleGenAI({ apiKey, httpOptions: settings.baseUrl ? { baseUrl: settings.baseUrl } : undefined }) : null;
+
+  const client = () => {
+    if (!ai) throw new ServiceError('auth', "No Gemini API key is set. Add one in Settings.");
+    return ai;
+  };
+
+  type GenerateParams = Parameters<GoogleGenAI['models']['generateContent']>[0];
+
+  const withGeneration = (params: GenerateParams, options?: RequestOptions): GenerateParams =>
+    ({ ...params, config: { temperature: generation.temperature, ...params.config, abortSignal: options?.signal } });
+
+  const reportUsage = (model: string, usage: GenerateContentResponseUsageMetadata | undefined, options?: RequestOptions) => {
+    if (!usage) return;
+    options?.onUsage?.({
+      model,
+      inputTokens: usage.promptTokenCount || 0,
+      outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+    });
+  };
+
+  // Applies the shared generation options and reports token usage, even for blocked responses
+  const generate = async (params: GenerateParams, options?: RequestOptions) => {
+    const response = await client().models.generateContent(withGeneration(params, options));
+    reportUsage(params.model, response.usageMetadata, options);
+    return checkBlocked(response);
+  };
+
+  // Streams the answer, passing each partial analysis on. Every chunk carries the running
+  // usage totals, so the last one seen is reported even if the stream breaks off.
+  const generateAnalysisStream = async (params: GenerateParams, options: RequestOptions) => {
+    let text = '';
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    try {
+      for await (const chunk of await client().models.generateContentStream(withGeneration(params, options))) {
+        usage = chunk.usageMetadata || usage;
+        checkBlocked(chunk);
+        if (!chunk.text) continue;
+        text += chunk.text;
+        const partial = parsePartialAnalysis(text);
+        if (partial) options.onPartialAnalysis?.(partial);
+      }
+    } finally {
+      reportUsage(params.model, usage, options);
+    }
+    return text;
+  };
+
+  const analyze = async (media: Part, prompt: string, responseSchema: object, options?: RequestOptions): Promise<AnalysisResult> => {
+    const params = {
+      model: settings.analysisModel,
+      contents: { parts: [media, { text: withLanguage(prompt, generation.language) }] },
+      config: { responseMimeType: 'application/json', responseSchema }
+    };
+    if (options?.onPartialAnalysis) return parseStreamedAnalysis(await generateAnalysisStream(params, options));
+    return parseAnalysis((await generate(params, options)).text);
+  };
+
+  // Large clips go through the files API and are referenced by URI once processed
+  const uploadVideo = async (video: Blob, options?: RequestOptions): Promise<Part> => {
+    const ai = client();
+    let file: UploadedFile = await uploadResumable(video, {
+      endpoint: uploadEndpoint || FILES_UPLOAD_URL,
+      headers: { 'x-goog-api-key': apiKey },
+      displayName: 'nano-lens-clip',
+      signal: options?.signal,
+      onProgress: options?.onUploadProgress
+    });
+    while (!uploadEndpoint && file.state === FileState.PROCESSING && file.name) {
+      await wait(FILE_POLL_INTERVAL, options?.signal);
+      const current = await ai.files.get({ name: file.name, config: { abortSignal: options?.signal } });
+      file = { ...file, state: current.state };
+    }
+    if (file.state === FileState.FAILED) throw new ServiceError('unknown', "The uploaded video could not be processed.");
+    return { fileData: { fileUri: file.uri, mimeType: file.mimeType || video.type } };
+  };
+
+  // Small media is inlined; anything over the inline limit goes through the files API
+  const mediaPart = async (media: Blob, options?: RequestOptions): Promise<Part> => media.size > INLINE_MEDIA_LIMIT
+    ? uploadVideo(media, options)
+    : { inlineData: { data: await blobToRaw(media), mimeType: media.type } };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    analyzeImage: (raw, mimeType, preset, options) =>
+      analyze({ inlineData: { data: raw, mimeType } }, withPreset(IMAGE_ANALYSIS_PROMPT, preset), withPresetSchema(imageAnalysisSchema, preset), options),
+
+    analyzeVideo: async (video, preset, options) =>
+      analyze(await mediaPart(video, options), withPreset(VIDEO_ANALYSIS_PROMPT, preset), withPresetSchema(videoAnalysisSchema, preset), options),
+
+    editImage: async (raw, mimeType, prompt, mask, options): Promise<EditResult> => {
+      const parts = mask
+        ? [{ inlineData: { data: raw, mimeType } }, { inlineData: { data: mask, mimeType: 'image/png' } }, { text: `${prompt}\n\n${MASKED_EDIT_INSTRUCTION}` }]
+        : [{ inlineData: { data: raw, mimeType } }, { text: prompt }];
+      const response = await generate({
+        model: settings.editModel,
+        contents: { parts },
+        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] }
+      }, options);
+      const output = response.candidates?.[0]?.content?.parts || [];
+      const image = output.find(p => p.inlineData?.data);
+      return {
+        imageData: image?.inlineData?.data,
+        textResponse: output.filter(p => p.text).map(p => p.text).join('\n') || undefined
+      };
+    },
+
+    chat: async (media, analysis, messages, options) => {
+      // The capture rides along with the first question so every turn can refer to it
+      const part = await mediaPart(media, options);
+      const contents = messages.map((m, i) => ({
+        role: m.role,
+        parts: i === 0 ? [part, { text: m.text }] : [{ text: m.text }]
+      }));
+      const response = await generate({
+        model: settings.analysisModel,
+        contents,
+        config: { systemInstruction: withLanguage(chatContext(analysis), generation.language) }
+      }, options);
+      if (!response.text) throw new ServiceError('malformed', "The model returned an empty answer.");
+      return response.text;
+    },
+
+    extractText: async (raw, mimeType, options) => {
+      const response = await generate({
+        model: settings.analysisModel,
+        contents: { parts: [{ inlineData: { data: raw, mimeType } }, { text: TEXT_EXTRACTION_PROMPT }] }
+      }, options);
+      return response.text?.trim() || '';
+    },
+
+    testConnection: async (options) => {
+      // Looking the models up checks the key and both ids without generating anything
+      await Promise.all([settings.analysisModel, settings.editModel].map(model =>
+        client().models.get({ model, config: { abortSignal: options?.signal } }).catch(err => {
+          if (err?.status === 404) throw new ServiceError('unknown', `Gemini has no model called ${model}.`, { cause: err });
+          throw err;
+        })));
+    }
+  };
+};
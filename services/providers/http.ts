@@ -0,0 +1,209 @@
+import { AnalysisResult, EditResult, GenerationOptions, HttpProviderSettings, RequestOptions, VisionProvider } from '../../types';
+import { base64ToBlob, blobToRaw } from '../media';
+import { toAlphaMask } from '../mask';
+import { ServiceError, kindFromStatus } from '../errors';
+import { INLINE_MEDIA_LIMIT, uploadResumable } from '../upload';
+import { IMAGE_ANALYSIS_PROMPT, TEXT_EXTRACTION_PROMPT, VIDEO_ANALYSIS_PROMPT, chatContext, parseAnalysis, parsePartialAnalysis, parseStreamedAnalysis, withLanguage, withPreset } from './prompts';
+
+/**
+ * Talks to any server exposing the OpenAI-compatible `/chat/completions` and
+ * `/images/edits` routes (Ollama, LM Studio, vLLM or a local stand-in).
+ * Clips too large to inline go to `uploadEndpoint` first when one is set.
+ */
+export const createHttpProvider = (settings: HttpProviderSettings, generation: GenerationOptions, uploadEndpoint = ''): VisionProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+  const send = async (path: string, init: RequestInit, options?: RequestOptions) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { ...authHeaders, ...init.headers },
+      signal: options?.signal
+    });
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new ServiceError(kindFromStatus(response.status), undefined, {
+        cause: new Error(`${path} failed with HTTP ${response.status}`),
+        retryAfter: retryAfter > 0 ? retryAfter * 1000 : undefined
+      });
+    }
+    return response;
+  };
+
+  const request = async (path: string, init: RequestInit, options?: RequestOptions) => {
+    const response = await send(path, init, options);
+    let body: any;
+    try {
+      body = await response.json();
+    } catch (err) {
+      throw new ServiceError('malformed', undefined, { cause: err });
+    }
+    reportUsage(path, body, options);
+    return body;
+  };
+
+  // Completions count prompt/completion tokens, image edits input/output tokens
+  const reportUsage = (path: string, body: any, options?: RequestOptions) => {
+    const usage = body?.usage;
+    if (!usage) return;
+    options?.onUsage?.({
+      model: path.startsWith('/images') ? settings.editModel || settings.model : settings.model,
+      inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0
+    });
+  };
+
+  // OpenAI-compatible servers flag filtered output on the choice
+  const replyText = (body: any): string | undefined => {
+    const choice = body.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') throw new ServiceError('safety');
+    return choice?.message?.content;
+  };
+
+  const mediaPart = (raw: string, mimeType: string) => {
+    const url = `data:${mimeType};base64,${raw}`;
+    return mimeType.startsWith('video') ? { type: 'video_url', video_url: { url } } : { type: 'image_url', image_url: { url } };
+  };
+
+  // Clips too large to inline are uploaded first when there's somewhere to upload them
+  const blobPart = async (media: Blob, options?: RequestOptions) => {
+    if (media.size <= INLINE_MEDIA_LIMIT || !uploadEndpoint) return mediaPart(await blobToRaw(media), media.type);
+    const file = await uploadResumable(media, {
+      endpoint: uploadEndpoint,
+      headers: authHeaders,
+      displayName: 'nano-lens-clip',
+      signal: options?.signal,
+      onProgress: options?.onUploadProgress
+    });
+    return { type: 'video_url', video_url: { url: file.uri } };
+  };
+
+  // Reads a `stream: true` completion's server-sent events, passing each partial analysis on
+  const streamAnalysis = async (payload: object, options: RequestOptions) => {
+    const response = await send('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...payload, stream: true, stream_options: { include_usage: true } })
+    }, options);
+    if (!response.body) throw new ServiceError('malformed', "The server did not stream its answer.");
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const lines = (buffer + value).split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data || data === '[DONE]') continue;
+        let chunk: any;
+        try {
+          chunk = JSON.parse(data);
+        } catch (err) {
+          throw new ServiceError('malformed', undefined, { cause: err });
+        }
+        reportUsage('/chat/completions', chunk, options);
+        const choice = chunk.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new ServiceError('safety');
+        if (!choice?.delta?.content) continue;
+        text += choice.delta.content;
+        const partial = parsePartialAnalysis(text);
+        if (partial) options.onPartialAnalysis?.(partial);
+      }
+    }
+    return text;
+  };
+
+  const analyze = async (media: object, prompt: string, options?: RequestOptions): Promise<AnalysisResult> => {
+    const payload = {
+      model: settings.model,
+      temperature: generation.temperature,
+      response_format: { type: 'json_object' },
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: withLanguage(prompt, generation.language) },
+          media
+        ]
+      }]
+    };
+    if (options?.onPartialAnalysis) return parseStreamedAnalysis(await streamAnalysis(payload, options));
+    const body = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    }, options);
+    return parseAnalysis(replyText(body));
+  };
+
+  return {
+    id: 'http',
+    label: 'OpenAI-compatible HTTP',
+
+    analyzeImage: (raw, mimeType, preset, options) => analyze(mediaPart(raw, mimeType), withPreset(IMAGE_ANALYSIS_PROMPT, preset), options),
+
+    analyzeVideo: async (video, preset, options) =>
+      analyze(await blobPart(video, options), withPreset(VIDEO_ANALYSIS_PROMPT, preset), options),
+
+    editImage: async (raw, mimeType, prompt, mask, options): Promise<EditResult> => {
+      const form = new FormData();
+      form.append('model', settings.editModel || settings.model);
+      form.append('prompt', prompt);
+      form.append('image', base64ToBlob(raw, mimeType), 'image.png');
+      if (mask) {
+        form.append('mask', await toAlphaMask(`data:image/png;base64,${mask}`), 'mask.png');
+      }
+      form.append('response_format', 'b64_json');
+      const body = await request('/images/edits', { method: 'POST', body: form }, options);
+      return {
+        imageData: body.data?.[0]?.b64_json,
+        textResponse: body.data?.[0]?.revised_prompt
+      };
+    },
+
+    chat: async (media, analysis, messages, options) => {
+      const part = await blobPart(media, options);
+      const body = await request('/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: generation.temperature,
+          messages: [
+            { role: 'system', content: withLanguage(chatContext(analysis), generation.language) },
+            ...messages.map((m, i) => ({
+              role: m.role === 'model' ? 'assistant' : 'user',
+              content: i === 0 ? [{ type: 'text', text: m.text }, part] : m.text
+            }))
+          ]
+        })
+      }, options);
+      const reply = replyText(body);
+      if (!reply) throw new ServiceError('malformed', "The model returned an empty answer.");
+      return reply;
+    },
+
+    extractText: async (raw, mimeType, options) => {
+      const body = await request('/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: generation.temperature,
+          messages: [{ role: 'user', content: [{ type: 'text', text: TEXT_EXTRACTION_PROMPT }, mediaPart(raw, mimeType)] }]
+        })
+      }, options);
+      return String(replyText(body) ?? '').trim();
+    },
+
+    // OpenAI-compatible servers list their models; Ollama and LM Studio answer this without a key too
+    testConnection: async (options) => {
+      const body = await request('/models', { method: 'GET' }, options);
+      const ids: string[] = (body.data || []).map((m: any) => m.id);
+      const missing = [settings.model, settings.editModel].filter(m => m && ids.length && !ids.includes(m));
+      if (missing.length) throw new ServiceError('unknown', `The server doesn't list ${missing.join(' or ')}.`);
+    }
+  };
+};
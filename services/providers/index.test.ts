@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { AnalysisResult } from '../../types';
+import { DEFAULT_SETTINGS } from '../settings';
+import { createProvider } from './index';
+
+// Stands in for an OpenAI-compatible server whose streamed answer stops at the output
+// limit: the JSON is cut off, but the stream itself ends cleanly
+const TRUNCATED = '{"description": "A mug of coffee", "points": ["Ceramic mug", "Still stea';
+
+const startServer = () => {
+  let calls = 0;
+  const server = http.createServer((req, res) => {
+    calls++;
+    req.resume();
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    // Sent in a few pieces, as a real stream would be
+    for (let i = 0; i < TRUNCATED.length; i += 24) {
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: TRUNCATED.slice(i, i + 24) } }] })}\n\n`);
+    }
+    res.end(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'length' }] })}\n\ndata: [DONE]\n\n`);
+  });
+  return { server, calls: () => calls };
+};
+
+describe('streamed analyses', () => {
+  const upstream = startServer();
+  let baseUrl: string;
+
+  before(async () => {
+    await new Promise<void>(resolve => upstream.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(upstream.server.address() as AddressInfo).port}/v1`;
+  });
+
+  after(() => {
+    upstream.server.close();
+  });
+
+  it('keeps a cut-off answer as incomplete instead of asking again', async () => {
+    const provider = createProvider({ ...DEFAULT_SETTINGS, provider: 'http', http: { ...DEFAULT_SETTINGS.http, baseUrl } });
+    const partials: AnalysisResult[] = [];
+    const analysis = await provider.analyzeImage('aW1hZ2U=', 'image/jpeg', undefined, { onPartialAnalysis: p => partials.push(p) });
+
+    assert.equal(upstream.calls(), 1);
+    assert.equal(analysis.incomplete, true);
+    assert.equal(analysis.description, "A mug of coffee");
+    assert.deepEqual(analysis.points, ["Ceramic mug", "Still stea"]);
+    assert.deepEqual(partials.at(-1)?.points, analysis.points);
+  });
+});
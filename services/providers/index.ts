@@ -0,0 +1,37 @@
+import { AppSettings, RequestOptions, VisionProvider } from '../../types';
+import { createGeminiProvider } from './gemini';
+import { createHttpProvider } from './http';
+import { createMockProvider } from './mock';
+import { createProxyProvider } from './proxy';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, withRetry } from '../errors';
+
+// A streamed analysis the user has watched arrive isn't asked for again when it can't be read:
+// the partial is already on screen, and each retry would be another full, paid call
+const analysisRetry = (options?: RequestOptions): RetryOptions =>
+  options?.onPartialAnalysis ? { ...DEFAULT_RETRY_OPTIONS, except: ['malformed'] } : DEFAULT_RETRY_OPTIONS;
+
+// Every call retries transient failures and rejects with a classified ServiceError
+const withRetries = (provider: VisionProvider): VisionProvider => ({
+  ...provider,
+  analyzeImage: (raw, mimeType, preset, options) => withRetry(() => provider.analyzeImage(raw, mimeType, preset, options), options?.signal, analysisRetry(options)),
+  analyzeVideo: (video, preset, options) => withRetry(() => provider.analyzeVideo(video, preset, options), options?.signal, analysisRetry(options)),
+  editImage: (raw, mimeType, prompt, mask, options) => withRetry(() => provider.editImage(raw, mimeType, prompt, mask, options), options?.signal),
+  chat: (media, analysis, messages, options) => withRetry(() => provider.chat(media, analysis, messages, options), options?.signal),
+  extractText: (raw, mimeType, options) => withRetry(() => provider.extractText(raw, mimeType, options), options?.signal)
+});
+
+const createBaseProvider = (settings: AppSettings): VisionProvider => {
+  switch (settings.provider) {
+    case 'http':
+      return createHttpProvider(settings.http, settings.generation, settings.video.uploadEndpoint);
+    case 'proxy':
+      return createProxyProvider(settings.proxy, settings.generation);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.gemini, settings.generation, settings.video.uploadEndpoint);
+  }
+};
+
+export const createProvider = (settings: AppSettings): VisionProvider => withRetries(createBaseProvider(settings));
@@ -0,0 +1,182 @@
+import { AnalysisPreset, AnalysisResult, EditResult, RequestOptions, StructuredValue, VisionProvider } from '../../types';
+import { wait } from '../errors';
+import { parsePartialAnalysis } from './prompts';
+
+const IMAGE_FIXTURES: AnalysisResult[] = [
+  {
+    description: "A desk workspace with a laptop, a coffee mug and a notebook.",
+    points: [
+      "The laptop is open and appears to be mid-task, suggesting active work.",
+      "The mug is placed close to the keyboard, a common spill risk.",
+      "Natural light from the left makes this a good spot for video calls."
+    ],
+    objects: [
+      { label: "laptop", confidence: 0.94, box: { x: 0.22, y: 0.18, width: 0.46, height: 0.42 } },
+      { label: "mug", confidence: 0.88, box: { x: 0.72, y: 0.48, width: 0.14, height: 0.2 } },
+      { label: "notebook", confidence: 0.71, box: { x: 0.08, y: 0.62, width: 0.3, height: 0.22 } }
+    ]
+  },
+  {
+    description: "A potted plant on a windowsill in bright indirect light.",
+    points: [
+      "The leaf shape is consistent with a pothos, a hardy trailing houseplant.",
+      "Slight yellowing on the lower leaves can indicate overwatering.",
+      "Rotating the pot weekly keeps growth even toward the light."
+    ],
+    objects: [
+      { label: "pothos", confidence: 0.83, box: { x: 0.3, y: 0.12, width: 0.42, height: 0.5 } },
+      { label: "pot", confidence: 0.9, box: { x: 0.38, y: 0.6, width: 0.24, height: 0.26 } }
+    ]
+  },
+  {
+    description: "A street scene with parked cars and a pedestrian crossing.",
+    points: [
+      "The crossing has clear road markings and a visible signal.",
+      "Cars are parked on both sides, narrowing the lane.",
+      "Shadows suggest the photo was taken in the late afternoon."
+    ],
+    objects: [
+      { label: "crossing", confidence: 0.86, box: { x: 0.1, y: 0.66, width: 0.8, height: 0.2 } },
+      { label: "signal", confidence: 0.77, box: { x: 0.8, y: 0.2, width: 0.06, height: 0.16 } },
+      { label: "cars", confidence: 0.92, box: { x: 0.02, y: 0.4, width: 0.3, height: 0.24 } }
+    ],
+    textRegions: [
+      { text: "STOP", box: { x: 0.81, y: 0.12, width: 0.05, height: 0.04 } }
+    ]
+  }
+];
+
+const VIDEO_FIXTURE: AnalysisResult = {
+  description: "A short handheld clip panning across an indoor room.",
+  points: [
+    "The camera pans from left to right over roughly ten seconds.",
+    "Lighting stays consistent, so the room is likely lit artificially.",
+    "No people appear in the frame during the clip."
+  ],
+  segments: [
+    { start: 0, end: 3, title: "Opening", summary: "The clip starts on the left wall near the doorway." },
+    { start: 3, end: 7, title: "Pan across", summary: "The camera sweeps past a bookshelf and a window." },
+    { start: 7, end: 10, title: "Closing", summary: "The pan settles on a desk in the right corner." }
+  ],
+  events: [
+    { time: 4.5, label: "Window comes into view" },
+    { time: 8, label: "Camera stops moving" }
+  ]
+};
+
+const LATENCY_MS = 600;
+
+// Settles like a real request would, including rejecting as soon as it is aborted
+const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, LATENCY_MS);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Plausible token counts so the usage dashboard can be tried out; the mock model has no price
+const reportUsage = (options?: RequestOptions) => options?.onUsage?.({ model: 'mock', inputTokens: 1290, outputTokens: 240 });
+
+// Replays the result as JSON in small pieces, like a model streaming its answer
+const STREAM_CHUNKS = 24;
+const STREAM_STEP_MS = 60;
+
+const respond = async (result: AnalysisResult, options?: RequestOptions) => {
+  await delay(options?.signal);
+  if (options?.onPartialAnalysis) {
+    const text = JSON.stringify(result);
+    const size = Math.ceil(text.length / STREAM_CHUNKS);
+    for (let end = size; end < text.length; end += size) {
+      const partial = parsePartialAnalysis(text.slice(0, end));
+      if (partial) options.onPartialAnalysis(partial);
+      await wait(STREAM_STEP_MS, options.signal);
+    }
+  }
+  reportUsage(options);
+  return result;
+};
+
+// FNV-1a, so the same capture always maps to the same fixture
+const hash = (input: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 64) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const SAMPLE_VALUES: Record<string, StructuredValue> = {
+  text: "Sample value",
+  number: 42,
+  boolean: true,
+  list: ["First item", "Second item"]
+};
+
+// Fills every preset field with a placeholder of the right type
+const withPresetFields = (result: AnalysisResult, preset?: AnalysisPreset): AnalysisResult => {
+  if (!preset?.fields.length) return result;
+  return { ...result, fields: Object.fromEntries(preset.fields.map(f => [f.name, SAMPLE_VALUES[f.type]])) };
+};
+
+// Applies a visible, repeatable change so edits can be demoed without a model
+const stampImage = (raw: string, mimeType: string, prompt: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas unavailable"));
+      ctx.filter = 'sepia(0.6) saturate(1.3)';
+      ctx.drawImage(img, 0, 0);
+      ctx.filter = 'none';
+      const band = Math.max(32, Math.round(canvas.height * 0.08));
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(0, canvas.height - band, canvas.width, band);
+      ctx.fillStyle = '#fff';
+      ctx.font = `${Math.round(band * 0.45)}px sans-serif`;
+      ctx.textBaseline = 'middle';
+      ctx.fillText(`Mock edit: ${prompt}`, band * 0.4, canvas.height - band / 2, canvas.width - band * 0.8);
+      resolve(canvas.toDataURL('image/png').split(',')[1]);
+    };
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = `data:${mimeType};base64,${raw}`;
+  });
+};
+
+export const createMockProvider = (): VisionProvider => ({
+  id: 'mock',
+  label: 'Offline mock',
+
+  analyzeImage: (raw, _mimeType, preset, options) =>
+    respond(withPresetFields(IMAGE_FIXTURES[hash(raw) % IMAGE_FIXTURES.length], preset), options),
+
+  analyzeVideo: (_video, preset, options) => respond(withPresetFields(VIDEO_FIXTURE, preset), options),
+
+  editImage: async (raw, mimeType, prompt, _mask, options): Promise<EditResult> => {
+    await delay(options?.signal);
+    reportUsage(options);
+    return { imageData: await stampImage(raw, mimeType, prompt) };
+  },
+
+  chat: async (_media, analysis, messages, options) => {
+    await delay(options?.signal);
+    reportUsage(options);
+    const question = messages[messages.length - 1]?.text || '';
+    const points = analysis?.points || [];
+    const hint = points.length ? points[hash(question) % points.length] : "There is not much detail to go on in this capture.";
+    return `Mock answer to "${question}": ${hint}`;
+  },
+
+  extractText: async (raw, _mimeType, options) => {
+    await delay(options?.signal);
+    reportUsage(options);
+    return `RECEIPT #${hash(raw) % 10000}\n\nCoffee beans 1kg | 18.50\nOat milk | 2.20\n\nTotal | 20.70\n\nThank you for shopping with us.`;
+  },
+
+  testConnection: (options) => delay(options?.signal)
+});
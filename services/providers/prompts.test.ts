@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseAnalysis, parsePartialAnalysis, parseStreamedAnalysis } from './prompts';
+
+const FULL = JSON.stringify({
+  description: "A mug of coffee on a desk",
+  points: ["Ceramic mug", "Still steaming", "Morning light"],
+  objects: [
+    { label: "mug", confidence: 0.9, box_2d: [100, 200, 600, 500] },
+    { label: "spoon", confidence: 0.7, box_2d: [650, 300, 700, 600] }
+  ]
+});
+
+// The stream as it stood just before `marker` arrived
+const cutBefore = (marker: string) => FULL.slice(0, FULL.indexOf(marker));
+
+describe('parsePartialAnalysis', () => {
+  it('closes a string cut off mid-word', () => {
+    const analysis = parsePartialAnalysis(cutBefore('of coffee'));
+    assert.equal(analysis?.description, "A mug");
+    assert.deepEqual(analysis?.points, []);
+  });
+
+  it('keeps an escape that was cut in half out of the text', () => {
+    assert.equal(parsePartialAnalysis('{"description": "A \\"mug\\')?.description, 'A "mug');
+  });
+
+  it('closes an array cut inside an item', () => {
+    const analysis = parsePartialAnalysis(cutBefore('steaming'));
+    assert.equal(analysis?.description, "A mug of coffee on a desk");
+    assert.deepEqual(analysis?.points, ["Ceramic mug", "Still"]);
+  });
+
+  it('drops the dangling comma of an array cut between items', () => {
+    const analysis = parsePartialAnalysis(cutBefore('"Still'));
+    assert.deepEqual(analysis?.points, ["Ceramic mug"]);
+  });
+
+  it('drops a final object cut off before it was usable', () => {
+    const analysis = parsePartialAnalysis(cutBefore('700,'));
+    assert.deepEqual(analysis?.objects?.map(o => o.label), ["mug"]);
+    assert.equal(analysis?.points.length, 3);
+  });
+
+  it('drops a half-written key or number', () => {
+    assert.equal(parsePartialAnalysis(cutBefore('ints"'))?.description, "A mug of coffee on a desk");
+    const analysis = parsePartialAnalysis('{"description": "Mug", "objects": [{"label": "mug", "confidence": 0.');
+    assert.equal(analysis?.description, "Mug");
+    assert.equal(analysis?.objects, undefined);
+  });
+
+  it('reads through markdown fences', () => {
+    assert.equal(parsePartialAnalysis('```json\n{"description": "Mug"')?.description, "Mug");
+  });
+
+  it('returns null until there is something to show', () => {
+    assert.equal(parsePartialAnalysis(''), null);
+    assert.equal(parsePartialAnalysis('Sure, here'), null);
+    assert.equal(parsePartialAnalysis('{"descr'), null);
+    assert.equal(parsePartialAnalysis('{"points": ['), null);
+  });
+
+  it('agrees with parseAnalysis once the stream is complete', () => {
+    assert.deepEqual(parsePartialAnalysis(FULL), parseAnalysis(FULL));
+  });
+});
+
+describe('parseStreamedAnalysis', () => {
+  it('returns a finished stream as parsed', () => {
+    assert.deepEqual(parseStreamedAnalysis(FULL), parseAnalysis(FULL));
+  });
+
+  it('repairs a stream that ended partway and marks it incomplete', () => {
+    const analysis = parseStreamedAnalysis(cutBefore('steaming'));
+    assert.equal(analysis.incomplete, true);
+    assert.deepEqual(analysis.points, ["Ceramic mug", "Still"]);
+  });
+
+  it('still fails when nothing usable arrived', () => {
+    assert.throws(() => parseStreamedAnalysis('{"descr'), { name: 'ServiceError', kind: 'malformed' });
+  });
+});
@@ -0,0 +1,187 @@
+import { AnalysisPreset, AnalysisResult, BoundingBox, DetectedObject, PresetFieldType, StructuredValue, TextRegion, VideoEvent, VideoSegment } from '../../types';
+import { ServiceError } from '../errors';
+
+export const IMAGE_ANALYSIS_PROMPT =
+  "Analyze this image. Reply with JSON containing a one-sentence \"description\", a \"points\" array of exactly three short, genuinely useful insights about what it shows, " +
+  "an \"objects\" array of the notable objects (each with \"label\", \"confidence\" from 0 to 1 and \"box_2d\" as [ymin, xmin, ymax, xmax] scaled 0-1000), " +
+  "and a \"text_regions\" array of any legible text (each with \"text\" and \"box_2d\"). Use the same object labels in the insights where they apply.";
+
+export const VIDEO_ANALYSIS_PROMPT =
+  "Analyze this video. Reply with JSON containing a one-sentence \"description\", a \"points\" array of exactly three short, genuinely useful insights about what happens in it, " +
+  "a \"segments\" array splitting the clip into consecutive scenes (each with \"start\" and \"end\" in seconds, a short \"title\" and a one-sentence \"summary\"), " +
+  "and an \"events\" array of notable moments (each with \"time\" in seconds and a short \"label\").";
+
+export const TEXT_EXTRACTION_PROMPT =
+  "Transcribe all text on this document page exactly as written, in natural reading order (columns top to bottom, left to right). " +
+  "Keep paragraph breaks and list structure, render tables as rows separated by \" | \", and reply with the text only, no commentary.";
+
+export const MASKED_EDIT_INSTRUCTION =
+  "The second image is a mask. Apply the edit only inside the white area of the mask and keep everything in the black area exactly as it is.";
+
+const FIELD_TYPE_HINTS: Record<PresetFieldType, string> = {
+  text: 'string',
+  number: 'number',
+  boolean: 'true or false',
+  list: 'array of strings'
+};
+
+/** Appends a preset's instruction and output fields to one of the base prompts. */
+export const withPreset = (prompt: string, preset?: AnalysisPreset) => {
+  if (!preset) return prompt;
+  const fields = preset.fields.map(f => `"${f.name}" (${FIELD_TYPE_HINTS[f.type]})${f.description ? `: ${f.description}` : ''}`);
+  return [
+    prompt,
+    preset.instruction.trim() && `Focus the description and insights on this task: ${preset.instruction.trim()}`,
+    fields.length && `Also include a "fields" object with these keys: ${fields.join('; ')}. Use null for any value that cannot be determined from the capture.`
+  ].filter(Boolean).join('\n\n');
+};
+
+/** Asks for prose in the user's language while keeping the JSON shape intact. */
+export const withLanguage = (prompt: string, language: string) =>
+  language.trim()
+    ? `${prompt}\n\nWrite every description, insight, title, label and answer in ${language.trim()}. Keep JSON keys and field names exactly as given.`
+    : prompt;
+
+export const chatContext = (analysis: AnalysisResult | undefined) =>
+  [
+    "You are a helpful visual assistant. Answer follow-up questions about the attached capture concisely and accurately. If something cannot be determined from the capture, say so.",
+    analysis?.description && `Earlier summary: ${analysis.description}`,
+    analysis?.points?.length && `Earlier insights:\n${analysis.points.map(p => `- ${p}`).join('\n')}`
+  ].filter(Boolean).join('\n\n');
+
+// Models sometimes wrap JSON in markdown fences or add stray prose around it
+export const parseAnalysis = (text: string | undefined): AnalysisResult => {
+  if (!text) throw new ServiceError('malformed', "The model returned an empty analysis.");
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new ServiceError('malformed');
+
+  try {
+    return normalizeAnalysis(JSON.parse(cleaned.slice(start, end + 1)));
+  } catch (err) {
+    throw new ServiceError('malformed', undefined, { cause: err });
+  }
+};
+
+// Candidate completions of a truncated JSON document: everything closed as-is first, then cut
+// back to before each trailing comma in turn, which drops a half-written key or number
+const closeTruncatedJson = (text: string): string[] => {
+  const stack: string[] = [];
+  const cuts: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      stack.push(c === '{' ? '}' : ']');
+    } else if (c === '}' || c === ']') {
+      stack.pop();
+    } else if (c === ',') {
+      cuts.push(text.slice(0, i) + [...stack].reverse().join(''));
+    }
+  }
+  const body = escaped ? text.slice(0, -1) : text;
+  return [body + (inString ? '"' : '') + [...stack].reverse().join(''), ...cuts.reverse()];
+};
+
+/** Best-effort parse of an analysis still being streamed; null until there's anything to show. */
+export const parsePartialAnalysis = (text: string): AnalysisResult | null => {
+  const cleaned = text.replace(/```(?:json)?/gi, '');
+  const start = cleaned.indexOf('{');
+  if (start === -1) return null;
+  for (const candidate of closeTruncatedJson(cleaned.slice(start).trimEnd())) {
+    try {
+      const analysis = normalizeAnalysis(JSON.parse(candidate));
+      return analysis.description || analysis.points?.length ? analysis : null;
+    } catch {
+      // Try the next, shorter candidate
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads a streamed analysis once the stream has ended. An answer cut off partway (the
+ * output limit, say) comes back repaired and marked incomplete instead of as a
+ * malformed error, since asking again would be another full, paid call.
+ */
+export const parseStreamedAnalysis = (text: string): AnalysisResult => {
+  try {
+    return parseAnalysis(text);
+  } catch (err) {
+    const partial = parsePartialAnalysis(text);
+    if (!partial) throw err;
+    return { ...partial, incomplete: true };
+  }
+};
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// Accepts [ymin, xmin, ymax, xmax] on a 0-1000 grid, or an {x, y, width, height} box already normalized
+const parseBox = (value: any): BoundingBox | null => {
+  if (Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number')) {
+    const [ymin, xmin, ymax, xmax] = value.map(n => clamp01(n / 1000));
+    if (xmax <= xmin || ymax <= ymin) return null;
+    return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+  }
+  if (value && ['x', 'y', 'width', 'height'].every(k => typeof value[k] === 'number')) {
+    return { x: clamp01(value.x), y: clamp01(value.y), width: clamp01(value.width), height: clamp01(value.height) };
+  }
+  return null;
+};
+
+// Accepts seconds as a number or an "MM:SS" / "HH:MM:SS" string
+const parseSeconds = (value: any): number | null => {
+  if (typeof value === 'number' && isFinite(value)) return Math.max(0, value);
+  if (typeof value === 'string' && /^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value.trim())) {
+    return value.trim().split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+  }
+  return null;
+};
+
+const parseFields = (value: any): Record<string, StructuredValue> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const fields: Record<string, StructuredValue> = {};
+  Object.entries(value).forEach(([key, v]) => {
+    if (typeof v === 'string' || typeof v === 'boolean' || (typeof v === 'number' && isFinite(v))) fields[key] = v;
+    else if (Array.isArray(v)) fields[key] = v.filter(item => item !== null && item !== undefined).map(String);
+  });
+  return Object.keys(fields).length ? fields : undefined;
+};
+
+/** Coerces model output (or an older saved result) into a well-formed AnalysisResult. */
+export const normalizeAnalysis = (parsed: any): AnalysisResult => {
+  const objects: DetectedObject[] = (Array.isArray(parsed?.objects) ? parsed.objects : [])
+    .map((o: any) => ({ label: String(o?.label ?? ''), confidence: clamp01(Number(o?.confidence) || 0), box: parseBox(o?.box_2d ?? o?.box) }))
+    .filter((o: any): o is DetectedObject => !!o.label && !!o.box);
+  const textRegions: TextRegion[] = (Array.isArray(parsed?.text_regions ?? parsed?.textRegions) ? (parsed.text_regions ?? parsed.textRegions) : [])
+    .map((t: any) => ({ text: String(t?.text ?? ''), box: parseBox(t?.box_2d ?? t?.box) }))
+    .filter((t: any): t is TextRegion => !!t.text && !!t.box);
+
+  const segments: VideoSegment[] = (Array.isArray(parsed?.segments) ? parsed.segments : [])
+    .map((s: any) => ({ start: parseSeconds(s?.start), end: parseSeconds(s?.end), title: String(s?.title ?? ''), summary: String(s?.summary ?? '') }))
+    .filter((s: any): s is VideoSegment => s.start !== null && s.end !== null && s.end >= s.start && !!(s.title || s.summary))
+    .sort((a: VideoSegment, b: VideoSegment) => a.start - b.start);
+  const events: VideoEvent[] = (Array.isArray(parsed?.events) ? parsed.events : [])
+    .map((e: any) => ({ time: parseSeconds(e?.time), label: String(e?.label ?? '') }))
+    .filter((e: any): e is VideoEvent => e.time !== null && !!e.label)
+    .sort((a: VideoEvent, b: VideoEvent) => a.time - b.time);
+
+  return {
+    description: typeof parsed?.description === 'string' ? parsed.description : undefined,
+    points: Array.isArray(parsed?.points) ? parsed.points.map(String) : [],
+    objects: objects.length ? objects : undefined,
+    textRegions: textRegions.length ? textRegions : undefined,
+    segments: segments.length ? segments : undefined,
+    events: events.length ? events : undefined,
+    fields: parseFields(parsed?.fields),
+    incomplete: parsed?.incomplete === true || undefined
+  };
+};
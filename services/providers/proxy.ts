@@ -0,0 +1,78 @@
+import { AnalysisResult, EditResult, GenerationOptions, ProxyProviderSettings, RequestOptions, TokenUsage, VisionProvider } from '../../types';
+import { blobToRaw, formatBytes } from '../media';
+import { ERROR_DETAILS, ServiceError, kindFromStatus } from '../errors';
+import { AnalyzeBody, ChatBody, ChatReply, DEFAULT_MAX_BODY_MB, EditBody, ExtractTextBody, ExtractTextReply, PROXY_ROUTES, ProxyErrorBody, USAGE_HEADER } from './proxyApi';
+
+// Clips travel inline as base64, which adds a third; leave room for the rest of the body
+const MAX_INLINE_VIDEO_BYTES = Math.floor(DEFAULT_MAX_BODY_MB * 1024 * 1024 * 3 / 4) - 64 * 1024;
+
+/**
+ * Calls the bundled proxy server (server/), which holds the provider key and
+ * applies per-user rate and size limits. Only the user's access token leaves
+ * the device.
+ */
+export const createProxyProvider = (settings: ProxyProviderSettings, generation: GenerationOptions): VisionProvider => {
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = settings.token ? { Authorization: `Bearer ${settings.token}` } : {};
+
+  const call = async <T>(route: string, body: object | undefined, options?: RequestOptions): Promise<T> => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method: body ? 'POST' : 'GET',
+      headers: body ? { ...authHeaders, 'Content-Type': 'application/json' } : authHeaders,
+      body: body && JSON.stringify({ ...body, generation }),
+      signal: options?.signal
+    });
+    const usage = response.headers.get(USAGE_HEADER);
+    if (usage) {
+      try {
+        (JSON.parse(usage) as TokenUsage[]).forEach(u => options?.onUsage?.(u));
+      } catch (e) {
+        console.warn("Ignoring unreadable usage header", e);
+      }
+    }
+    const payload = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      // The proxy has already classified the failure; trust its kind when it sent one
+      const error = (payload as ProxyErrorBody | undefined)?.error;
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new ServiceError(error && error.kind in ERROR_DETAILS ? error.kind : kindFromStatus(response.status), error?.message, {
+        cause: new Error(`${route} failed with HTTP ${response.status}`),
+        retryAfter: retryAfter > 0 ? retryAfter * 1000 : undefined
+      });
+    }
+    if (payload === undefined) throw new ServiceError('malformed');
+    return payload as T;
+  };
+
+  // Refused up front rather than sent only to come back as a 413
+  const inlineMedia = (media: Blob) => {
+    if (media.size > MAX_INLINE_VIDEO_BYTES) {
+      throw new ServiceError('unknown', `This clip is ${formatBytes(media.size)}; the proxy takes clips up to ${formatBytes(MAX_INLINE_VIDEO_BYTES)}. Record a shorter one, or lower the recording limit under Video in Settings.`);
+    }
+    return blobToRaw(media);
+  };
+
+  return {
+    id: 'proxy',
+    label: 'Nano Lens proxy',
+
+    analyzeImage: (data, mimeType, preset, options) =>
+      call<AnalysisResult>(PROXY_ROUTES.analyzeImage, { data, mimeType, preset } satisfies AnalyzeBody, options),
+
+    analyzeVideo: async (video, preset, options) =>
+      call<AnalysisResult>(PROXY_ROUTES.analyzeVideo, { data: await inlineMedia(video), mimeType: video.type, preset } satisfies AnalyzeBody, options),
+
+    editImage: (data, mimeType, prompt, mask, options) =>
+      call<EditResult>(PROXY_ROUTES.editImage, { data, mimeType, prompt, mask } satisfies EditBody, options),
+
+    chat: async (media, analysis, messages, options) =>
+      (await call<ChatReply>(PROXY_ROUTES.chat, { data: await inlineMedia(media), mimeType: media.type, analysis, messages } satisfies ChatBody, options)).reply,
+
+    extractText: async (data, mimeType, options) =>
+      (await call<ExtractTextReply>(PROXY_ROUTES.extractText, { data, mimeType } satisfies ExtractTextBody, options)).text,
+
+    testConnection: async (options) => {
+      await call(PROXY_ROUTES.health, undefined, options);
+    }
+  };
+};
@@ -0,0 +1,53 @@
+import { AnalysisPreset, AnalysisResult, ChatMessage, GenerationOptions, ServiceErrorKind } from '../../types';
+
+// Wire format shared by the proxy provider and the bundled proxy server (server/)
+
+export const PROXY_ROUTES = {
+  analyzeImage: '/api/analyze-image',
+  analyzeVideo: '/api/analyze-video',
+  editImage: '/api/edit-image',
+  chat: '/api/chat',
+  extractText: '/api/extract-text',
+  health: '/api/health'
+} as const;
+
+// Request bodies the proxy accepts unless PROXY_MAX_BODY_MB says otherwise
+export const DEFAULT_MAX_BODY_MB = 25;
+
+// Token usage of the upstream responses behind a reply, as a JSON array of TokenUsage
+export const USAGE_HEADER = 'X-Nano-Lens-Usage';
+
+// Media travels as raw base64; `generation` carries the user's temperature and language
+interface MediaBody {
+  data: string;
+  mimeType: string;
+  generation?: GenerationOptions;
+}
+
+export interface AnalyzeBody extends MediaBody {
+  preset?: AnalysisPreset;
+}
+
+export interface EditBody extends MediaBody {
+  prompt: string;
+  mask?: string;
+}
+
+export interface ChatBody extends MediaBody {
+  analysis?: AnalysisResult;
+  messages: ChatMessage[];
+}
+
+export type ExtractTextBody = MediaBody;
+
+export interface ChatReply {
+  reply: string;
+}
+
+export interface ExtractTextReply {
+  text: string;
+}
+
+export interface ProxyErrorBody {
+  error: { kind: ServiceErrorKind; message: string };
+}
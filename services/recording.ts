@@ -0,0 +1,24 @@
+// Container and codec pairs in order of preference. MP4/H.264 plays back
+// everywhere and is what Safari records; WebM covers Chrome and Firefox.
+const RECORDING_FORMATS = [
+  { video: 'video/mp4;codecs=avc1,mp4a', silent: 'video/mp4;codecs=avc1' },
+  { video: 'video/mp4', silent: 'video/mp4' },
+  { video: 'video/webm;codecs=vp9,opus', silent: 'video/webm;codecs=vp9' },
+  { video: 'video/webm;codecs=vp8,opus', silent: 'video/webm;codecs=vp8' },
+  { video: 'video/webm', silent: 'video/webm' }
+];
+
+/**
+ * The first recording format this browser's MediaRecorder supports, or
+ * undefined to let it choose. `withAudio` picks codec strings that include
+ * an audio track.
+ */
+export const pickRecordingFormat = (withAudio: boolean): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return RECORDING_FORMATS
+    .map(f => withAudio ? f.video : f.silent)
+    .find(type => MediaRecorder.isTypeSupported(type));
+};
+
+/** Drops the codecs parameter, e.g. `video/webm;codecs=vp9` becomes `video/webm`. */
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim();
@@ -0,0 +1,343 @@
+import { jsPDF } from "jspdf";
+import { ImageFile, Report, ReportEntry, ReportFormat } from '../types';
+import { formatFieldName, formatFieldValue, formatTimestamp } from './format';
+import { captureVideoFrames, getMediaSize } from './media';
+import { downloadFile } from './documentExport';
+import { getActivePath, getCurrentEditImage, getStep } from './editChain';
+
+const POSTER_SIZE = 960;
+
+const describeType = (entry: ReportEntry) => entry.pages ? 'document' : entry.type;
+
+const formatDimensions = (entry: ReportEntry) => entry.width && entry.height ? `${entry.width}×${entry.height}` : null;
+
+const metadataLine = (entry: ReportEntry) =>
+  [new Date(entry.timestamp).toLocaleString(), describeType(entry), formatDimensions(entry), entry.mimeType, entry.preset].filter(Boolean).join(' · ');
+
+const fieldLines = (entry: ReportEntry) =>
+  Object.entries(entry.fields || {}).map(([key, value]) => [formatFieldName(key), formatFieldValue(value)]);
+
+const buildEntry = async (file: ImageFile): Promise<ReportEntry> => {
+  let image: string | undefined = getCurrentEditImage(file.edits) || (file.type === 'image' ? file.preview : undefined);
+  if (file.type === 'video') {
+    try {
+      [image] = await captureVideoFrames(file.preview, [0], POSTER_SIZE);
+    } catch (e) {
+      console.warn("Poster frame capture failed", e);
+      image = file.analysis?.segments?.find(s => s.keyframe)?.keyframe;
+    }
+  }
+
+  let size: { width: number; height: number } | undefined = file.diagnostics
+    ? { width: file.diagnostics.width, height: file.diagnostics.height }
+    : undefined;
+  if (!size) {
+    try {
+      size = await getMediaSize(file.preview, file.type);
+    } catch {
+      size = undefined;
+    }
+  }
+
+  return {
+    id: file.id,
+    timestamp: file.timestamp,
+    type: file.type,
+    mimeType: file.mimeType,
+    width: size?.width || undefined,
+    height: size?.height || undefined,
+    image,
+    preset: file.preset?.name,
+    description: file.analysis?.description,
+    points: file.analysis?.points || [],
+    fields: file.analysis?.fields,
+    edits: getActivePath(file.edits).map(id => {
+      const { prompt, timestamp, masked } = getStep(file.edits, id)!;
+      return { prompt, timestamp, masked };
+    }),
+    segments: file.analysis?.segments,
+    events: file.analysis?.events,
+    chat: file.chat,
+    pages: file.pages?.map(({ id, text }) => ({ id, text }))
+  };
+};
+
+/** Collects everything a report shows, oldest capture first. */
+export const buildReport = async (files: ImageFile[], title = "Nano Lens Report"): Promise<Report> => {
+  const sorted = [...files].sort((a, b) => a.timestamp - b.timestamp);
+  const entries: ReportEntry[] = [];
+  // One at a time, since each video poster decodes a whole clip
+  for (const file of sorted) entries.push(await buildEntry(file));
+  return { title, generatedAt: Date.now(), entries };
+};
+
+// jsPDF needs the real encoding, otherwise PNG edits and WebP uploads come out corrupted
+const imageFormat = (dataUrl: string) => {
+  const mime = dataUrl.match(/^data:image\/([a-z]+)/i)?.[1]?.toLowerCase();
+  if (mime === 'png') return 'PNG';
+  if (mime === 'webp') return 'WEBP';
+  return 'JPEG';
+};
+
+export const reportToPdf = (report: Report): Blob => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const maxWidth = pageWidth - margin * 2;
+  const bottom = pageHeight - margin;
+  let yPos = margin;
+
+  const ensureSpace = (height: number) => {
+    if (yPos + height <= bottom) return;
+    doc.addPage();
+    yPos = margin;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(18);
+    yPos += 4;
+    doc.setFontSize(14);
+    doc.setTextColor(0, 0, 0);
+    doc.text(text, margin, yPos);
+    yPos += 8;
+  };
+
+  // Splits a paragraph across pages line by line instead of overflowing the bottom margin
+  const paragraph = (text: string, fontSize = 11, color: [number, number, number] = [60, 60, 60], indent = 0) => {
+    doc.setFontSize(fontSize);
+    doc.setTextColor(...color);
+    const lineHeight = fontSize * 0.5;
+    doc.splitTextToSize(text, maxWidth - indent).forEach((line: string) => {
+      ensureSpace(lineHeight);
+      doc.text(line, margin + indent, yPos);
+      yPos += lineHeight;
+    });
+    yPos += 2;
+  };
+
+  doc.setFontSize(22);
+  doc.setTextColor(40, 40, 40);
+  doc.text(report.title, margin, yPos + 2);
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  const count = report.entries.length;
+  doc.text(`Generated on ${new Date(report.generatedAt).toLocaleString()} · ${count} capture${count === 1 ? '' : 's'}`, margin, yPos + 10);
+  yPos += 22;
+
+  report.entries.forEach((entry, index) => {
+    if (index > 0) {
+      doc.addPage();
+      yPos = margin;
+    }
+    doc.setFontSize(16);
+    doc.setTextColor(0, 0, 0);
+    doc.text(count > 1 ? `Capture ${index + 1} of ${count}` : 'Capture', margin, yPos + 4);
+    yPos += 10;
+    paragraph(metadataLine(entry), 9, [120, 120, 120]);
+
+    if (entry.image) {
+      const props = doc.getImageProperties(entry.image);
+      const scale = Math.min(maxWidth / props.width, 120 / props.height);
+      const width = props.width * scale;
+      const height = props.height * scale;
+      ensureSpace(height);
+      doc.addImage(entry.image, imageFormat(entry.image), margin + (maxWidth - width) / 2, yPos, width, height);
+      yPos += height + 6;
+    }
+
+    if (entry.description) {
+      heading("Description");
+      paragraph(entry.description);
+    }
+
+    heading("Insights");
+    if (entry.points.length) {
+      entry.points.forEach((point, i) => paragraph(`${i + 1}. ${point}`));
+    } else {
+      paragraph("No analysis available.", 11, [140, 140, 140]);
+    }
+
+    if (entry.fields) {
+      heading("Details");
+      fieldLines(entry).forEach(([name, value]) => paragraph(`${name}: ${value}`));
+    }
+
+    if (entry.edits.length) {
+      heading("Edits");
+      entry.edits.forEach((edit, i) => paragraph(`${i + 1}. ${edit.prompt}${edit.masked ? ' (selected region)' : ''}`));
+    }
+
+    if (entry.segments?.length) {
+      heading("Timeline");
+      const thumbWidth = 40;
+      const thumbHeight = 24;
+      const textWidth = maxWidth - thumbWidth - 5;
+      entry.segments.forEach(segment => {
+        doc.setFontSize(10);
+        const summary = doc.splitTextToSize(segment.summary, textWidth);
+        const rowHeight = Math.max(thumbHeight, 7 + summary.length * 5);
+        ensureSpace(rowHeight);
+        if (segment.keyframe) {
+          doc.addImage(segment.keyframe, imageFormat(segment.keyframe), margin, yPos, thumbWidth, thumbHeight);
+        }
+        doc.setFontSize(11);
+        doc.setTextColor(79, 70, 229);
+        doc.text(`${formatTimestamp(segment.start)} - ${formatTimestamp(segment.end)}  ${segment.title}`, margin + thumbWidth + 5, yPos + 4);
+        doc.setFontSize(10);
+        doc.setTextColor(60, 60, 60);
+        doc.text(summary, margin + thumbWidth + 5, yPos + 10);
+        yPos += rowHeight + 6;
+      });
+    }
+
+    if (entry.events?.length) {
+      heading("Events");
+      entry.events.forEach(event => paragraph(`${formatTimestamp(event.time)}  ${event.label}`, 10));
+    }
+
+    if (entry.pages?.length) {
+      entry.pages.forEach((page, i) => {
+        heading(`Page ${i + 1} text`);
+        paragraph(page.text.trim() || "No text found.", 10);
+      });
+    }
+
+    if (entry.chat?.length) {
+      heading("Conversation");
+      entry.chat.forEach(m => paragraph(`${m.role === 'user' ? 'Q' : 'A'}: ${m.text}`, 11, m.role === 'user' ? [79, 70, 229] : [60, 60, 60]));
+    }
+  });
+
+  const total = doc.getNumberOfPages();
+  for (let i = 1; i <= total; i++) {
+    doc.setPage(i);
+    doc.setFontSize(9);
+    doc.setTextColor(150, 150, 150);
+    doc.text(`${i} / ${total}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
+  }
+  return doc.output('blob');
+};
+
+// Markdown stays text-only so it pastes cleanly into notes and issues
+export const reportToMarkdown = (report: Report) => {
+  const lines = [`# ${report.title}`, `_Generated on ${new Date(report.generatedAt).toLocaleString()}_`];
+  report.entries.forEach((entry, index) => {
+    lines.push(`## Capture ${index + 1}`, `_${metadataLine(entry)}_`);
+    if (entry.description) lines.push('### Description', entry.description);
+    lines.push('### Insights', entry.points.length ? entry.points.map((p, i) => `${i + 1}. ${p}`).join('\n') : '_No analysis available._');
+    if (entry.fields) lines.push('### Details', fieldLines(entry).map(([name, value]) => `- **${name}:** ${value}`).join('\n'));
+    if (entry.edits.length) {
+      lines.push('### Edits', entry.edits.map((e, i) => `${i + 1}. ${e.prompt}${e.masked ? ' _(selected region)_' : ''}`).join('\n'));
+    }
+    if (entry.segments?.length) {
+      lines.push('### Timeline', entry.segments.map(s => `- **${formatTimestamp(s.start)}–${formatTimestamp(s.end)} ${s.title}**: ${s.summary}`).join('\n'));
+    }
+    if (entry.events?.length) {
+      lines.push('### Events', entry.events.map(e => `- ${formatTimestamp(e.time)} ${e.label}`).join('\n'));
+    }
+    entry.pages?.forEach((page, i) => lines.push(`### Page ${i + 1}`, page.text.trim() || '_No text found._'));
+    if (entry.chat?.length) {
+      lines.push('### Conversation', entry.chat.map(m => `**${m.role === 'user' ? 'Q' : 'A'}:** ${m.text}`).join('\n\n'));
+    }
+  });
+  return lines.join('\n\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Only embedded images get through: report entries can come from imported archives
+const imageSrc = (url: string | undefined) => url && /^data:image\/[\w.+-]+[;,]/.test(url) ? escapeHtml(url) : null;
+
+const segmentImage = (keyframe: string | undefined) => {
+  const src = imageSrc(keyframe);
+  return src ? `<img src="${src}" alt="">` : '';
+};
+
+const list = (items: string[], ordered = true) =>
+  `<${ordered ? 'ol' : 'ul'}>${items.map(i => `<li>${i}</li>`).join('')}</${ordered ? 'ol' : 'ul'}>`;
+
+/** A single self-contained file; images are embedded as data URLs. */
+export const reportToHtml = (report: Report) => {
+  const sections = report.entries.map((entry, index) => {
+    const parts = [
+      `<h2>Capture ${index + 1}</h2>`,
+      `<p class="meta">${escapeHtml(metadataLine(entry))}</p>`
+    ];
+    const hero = imageSrc(entry.image);
+    if (hero) parts.push(`<img class="hero" src="${hero}" alt="Capture ${index + 1}">`);
+    if (entry.description) parts.push('<h3>Description</h3>', `<p>${escapeHtml(entry.description)}</p>`);
+    parts.push('<h3>Insights</h3>', entry.points.length ? list(entry.points.map(escapeHtml)) : '<p class="muted">No analysis available.</p>');
+    if (entry.fields) {
+      parts.push('<h3>Details</h3>', list(fieldLines(entry).map(([name, value]) => `<strong>${escapeHtml(name)}:</strong> ${escapeHtml(value)}`), false));
+    }
+    if (entry.edits.length) {
+      parts.push('<h3>Edits</h3>', list(entry.edits.map(e => escapeHtml(e.prompt) + (e.masked ? ' <span class="muted">(selected region)</span>' : ''))));
+    }
+    if (entry.segments?.length) {
+      parts.push('<h3>Timeline</h3>', ...entry.segments.map(s => `<div class="segment">${segmentImage(s.keyframe)}<div><strong>${formatTimestamp(s.start)}–${formatTimestamp(s.end)} ${escapeHtml(s.title)}</strong><p>${escapeHtml(s.summary)}</p></div></div>`));
+    }
+    if (entry.events?.length) {
+      parts.push('<h3>Events</h3>', list(entry.events.map(e => `${formatTimestamp(e.time)} ${escapeHtml(e.label)}`), false));
+    }
+    entry.pages?.forEach((page, i) => parts.push(`<h3>Page ${i + 1}</h3>`, `<pre>${escapeHtml(page.text.trim() || 'No text found.')}</pre>`));
+    if (entry.chat?.length) {
+      parts.push('<h3>Conversation</h3>', ...entry.chat.map(m => `<p class="${m.role}"><strong>${m.role === 'user' ? 'Q' : 'A'}:</strong> ${escapeHtml(m.text)}</p>`));
+    }
+    return `<section>${parts.join('\n')}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 760px; margin: 0 auto; padding: 32px 20px; color: #27272a; line-height: 1.5; }
+section { border-top: 1px solid #e4e4e7; padding-top: 16px; margin-top: 32px; page-break-before: always; }
+section:first-of-type { page-break-before: auto; }
+.meta, .muted { color: #71717a; font-size: 13px; }
+.hero { display: block; max-width: 100%; max-height: 480px; margin: 12px auto; border-radius: 8px; }
+.segment { display: flex; gap: 12px; margin-bottom: 12px; }
+.segment img { width: 120px; height: 72px; object-fit: cover; border-radius: 6px; flex-shrink: 0; }
+.segment p { margin: 4px 0 0; }
+.user { color: #4f46e5; }
+pre { white-space: pre-wrap; font-family: inherit; background: #f4f4f5; padding: 12px; border-radius: 6px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">Generated on ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+// Images are left out so the JSON stays small enough to diff and feed into other tools
+export const reportToJson = (report: Report) =>
+  JSON.stringify({
+    ...report,
+    generatedAt: new Date(report.generatedAt).toISOString(),
+    entries: report.entries.map(({ image, segments, ...entry }) => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      segments: segments?.map(({ keyframe, ...segment }) => segment)
+    }))
+  }, null, 2);
+
+export const downloadReport = (report: Report, format: ReportFormat) => {
+  const name = `nano-lens-report-${new Date(report.generatedAt).toISOString().slice(0, 10)}`;
+  switch (format) {
+    case 'pdf':
+      return downloadFile(`${name}.pdf`, reportToPdf(report));
+    case 'md':
+      return downloadFile(`${name}.md`, reportToMarkdown(report), 'text/markdown');
+    case 'html':
+      return downloadFile(`${name}.html`, reportToHtml(report), 'text/html');
+    case 'json':
+      return downloadFile(`${name}.json`, reportToJson(report), 'application/json');
+  }
+};
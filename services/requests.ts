@@ -0,0 +1,43 @@
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("The request was cancelled.");
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(seconds: number) {
+    super(`The request timed out after ${seconds} seconds.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export interface ActiveRequest {
+  signal: AbortSignal;
+  cancel: () => void;
+  done: () => void; // Stops the timeout once the request has settled
+}
+
+/** Starts an abortable request that gives up by itself after `timeoutSeconds`. */
+export const startRequest = (timeoutSeconds: number): ActiveRequest => {
+  const controller = new AbortController();
+  const timer = window.setTimeout(() => controller.abort(new RequestTimeoutError(timeoutSeconds)), timeoutSeconds * 1000);
+  return {
+    signal: controller.signal,
+    cancel: () => {
+      window.clearTimeout(timer);
+      controller.abort(new RequestCancelledError());
+    },
+    done: () => window.clearTimeout(timer)
+  };
+};
+
+/**
+ * The reason a request ended early, or null if it failed on its own. SDKs
+ * throw their own abort errors, so the signal is the source of truth.
+ */
+export const abortReason = (signal: AbortSignal): RequestCancelledError | RequestTimeoutError | null => {
+  if (!signal.aborted) return null;
+  const reason = signal.reason;
+  return reason instanceof RequestCancelledError || reason instanceof RequestTimeoutError ? reason : new RequestCancelledError();
+};
@@ -0,0 +1,39 @@
+// Shared with public/sw.js, which can't import modules
+export const SYNC_TAG = 'nano-lens-pending';
+export const SYNC_MESSAGE = 'nano-lens:sync';
+
+/**
+ * Registers the service worker that caches the app shell for offline use.
+ * Skipped under the dev server, whose modules aren't built assets and
+ * shouldn't be served from a cache.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn("Service worker registration failed", err));
+  });
+};
+
+/**
+ * Asks the browser to wake the service worker once connectivity is back, so
+ * pending captures are analyzed even if the tab was in the background.
+ * Background Sync is Chromium-only; elsewhere the `online` event covers it.
+ */
+export const requestBackgroundSync = async () => {
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    // @ts-ignore - SyncManager is not in the DOM typings yet
+    await registration?.sync?.register(SYNC_TAG);
+  } catch (err) {
+    console.warn("Background sync unavailable", err);
+  }
+};
+
+/** Calls `listener` whenever the service worker relays a background sync. */
+export const onBackgroundSync = (listener: () => void) => {
+  const handle = (event: MessageEvent) => {
+    if (event.data?.type === SYNC_MESSAGE) listener();
+  };
+  navigator.serviceWorker?.addEventListener('message', handle);
+  return () => navigator.serviceWorker?.removeEventListener('message', handle);
+};
@@ -0,0 +1,95 @@
+import { AppSettings } from '../types';
+import { DEFAULT_PRICES } from './usage';
+
+const SETTINGS_KEY = 'nanoLensSettings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  gemini: {
+    apiKey: '',
+    analysisModel: 'gemini-2.5-flash',
+    editModel: 'gemini-2.5-flash-image'
+  },
+  http: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llava',
+    editModel: '',
+    apiKey: ''
+  },
+  proxy: {
+    baseUrl: 'http://localhost:8787',
+    token: ''
+  },
+  generation: {
+    temperature: 1,
+    language: ''
+  },
+  usage: {
+    prices: DEFAULT_PRICES,
+    dailyBudget: 0,
+    monthlyBudget: 0
+  },
+  preprocess: {
+    maxDimension: 2048,
+    codec: 'image/jpeg',
+    quality: 0.85
+  },
+  requestTimeout: 60,
+  video: {
+    maxDuration: 60,
+    uploadEndpoint: ''
+  }
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(saved);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      gemini: { ...DEFAULT_SETTINGS.gemini, ...parsed.gemini },
+      http: { ...DEFAULT_SETTINGS.http, ...parsed.http },
+      proxy: { ...DEFAULT_SETTINGS.proxy, ...parsed.proxy },
+      generation: { ...DEFAULT_SETTINGS.generation, ...parsed.generation },
+      usage: { ...DEFAULT_SETTINGS.usage, ...parsed.usage },
+      preprocess: { ...DEFAULT_SETTINGS.preprocess, ...parsed.preprocess },
+      video: { ...DEFAULT_SETTINGS.video, ...parsed.video }
+    };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** Why settings can't be saved as they are, or null when they can. */
+export const validateSettings = (settings: AppSettings): string | null => {
+  if (settings.provider === 'gemini') {
+    if (!settings.gemini.apiKey.trim()) return "Enter a Gemini API key.";
+    if (/\s/.test(settings.gemini.apiKey.trim())) return "The API key can't contain spaces.";
+    if (!settings.gemini.analysisModel.trim() || !settings.gemini.editModel.trim()) return "Choose an analysis model and an edit model.";
+  }
+  if (settings.provider === 'http') {
+    if (!isHttpUrl(settings.http.baseUrl.trim())) return "The base URL must start with http:// or https://.";
+    if (!settings.http.model.trim()) return "Enter the vision model to use.";
+  }
+  if (settings.provider === 'proxy' && !isHttpUrl(settings.proxy.baseUrl.trim())) return "The proxy URL must start with http:// or https://.";
+  const { temperature } = settings.generation;
+  if (!(temperature >= 0 && temperature <= 2)) return "Temperature must be between 0 and 2.";
+  if (!(settings.usage.dailyBudget >= 0 && settings.usage.monthlyBudget >= 0)) return "Budgets can't be negative.";
+  if (settings.video.uploadEndpoint && !isHttpUrl(settings.video.uploadEndpoint)) return "The upload endpoint must be an http:// or https:// URL.";
+  return null;
+};
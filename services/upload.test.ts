@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { uploadResumable } from './upload';
+
+const FILE = { name: 'files/clip', uri: 'https://files.example/clip', mimeType: 'video/webm' };
+
+// Stands in for the files API's resumable protocol. `drop` decides, for each chunk,
+// whether the connection breaks before the chunk is stored or after it was.
+type Drop = (command: string, chunk: number) => 'before' | 'after' | undefined;
+
+const startFilesApi = () => {
+  const state = { commands: [] as string[], stored: [] as Buffer[], final: false, chunks: 0, drop: (() => undefined) as Drop };
+
+  const server = http.createServer(async (req, res) => {
+    const parts: Buffer[] = [];
+    for await (const part of req) parts.push(part);
+    const body = Buffer.concat(parts);
+    const command = String(req.headers['x-goog-upload-command']);
+    state.commands.push(command);
+    const received = state.stored.reduce((sum, b) => sum + b.length, 0);
+    const finished = () => res.writeHead(200, { 'X-Goog-Upload-Status': 'final' }).end(JSON.stringify({ file: FILE }));
+
+    if (command === 'start') {
+      res.writeHead(200, { 'X-Goog-Upload-URL': `http://${req.headers.host}/session` }).end();
+    } else if (command === 'query') {
+      if (state.final) return finished();
+      res.writeHead(200, { 'X-Goog-Upload-Status': 'active', 'X-Goog-Upload-Size-Received': String(received) }).end();
+    } else {
+      assert.equal(Number(req.headers['x-goog-upload-offset']), received, "chunk sent from the wrong offset");
+      const drop = state.drop(command, state.chunks++);
+      if (drop === 'before') return req.socket.destroy();
+      state.stored.push(body);
+      state.final = command.includes('finalize');
+      if (drop === 'after') return req.socket.destroy();
+      if (state.final) return finished();
+      res.writeHead(200, { 'X-Goog-Upload-Status': 'active' }).end();
+    }
+  });
+  return { server, state };
+};
+
+describe('resumable upload', () => {
+  const api = startFilesApi();
+  let endpoint: string;
+  const clip = new Blob(['0123456789'], { type: 'video/webm' });
+
+  before(async () => {
+    await new Promise<void>(resolve => api.server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(api.server.address() as AddressInfo).port}/upload`;
+  });
+
+  beforeEach(() => {
+    Object.assign(api.state, { commands: [], stored: [], final: false, chunks: 0, drop: () => undefined });
+  });
+
+  after(() => {
+    api.server.close();
+  });
+
+  const upload = async () => {
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      const progress: number[] = [];
+      const file = await uploadResumable(clip, { endpoint, chunkSize: 4, onProgress: p => progress.push(p) });
+      return { file, progress };
+    } finally {
+      console.warn = warn;
+    }
+  };
+
+  it('sends the blob in chunks and finalizes with the last one', async () => {
+    const { file, progress } = await upload();
+    assert.deepEqual(file, FILE);
+    assert.deepEqual(api.state.commands, ['start', 'upload', 'upload', 'upload, finalize']);
+    assert.equal(Buffer.concat(api.state.stored).toString(), '0123456789');
+    assert.deepEqual(progress, [0, 0.4, 0.8, 1]);
+  });
+
+  it('resumes from what the server holds after a dropped chunk', async () => {
+    api.state.drop = (_, chunk) => chunk === 1 ? 'before' : undefined;
+    const { file } = await upload();
+    assert.deepEqual(file, FILE);
+    assert.deepEqual(api.state.commands, ['start', 'upload', 'upload', 'query', 'upload', 'upload, finalize']);
+    assert.equal(Buffer.concat(api.state.stored).toString(), '0123456789');
+  });
+
+  it('returns the stored file when the last chunk landed but its answer was lost', async () => {
+    api.state.drop = command => command.includes('finalize') ? 'after' : undefined;
+    const { file } = await upload();
+    assert.deepEqual(file, FILE);
+    assert.deepEqual(api.state.commands, ['start', 'upload', 'upload', 'upload, finalize', 'query']);
+    assert.equal(Buffer.concat(api.state.stored).toString(), '0123456789');
+  });
+});
@@ -0,0 +1,118 @@
+import { ServiceError, kindFromStatus, withRetry } from './errors';
+
+export interface UploadOptions {
+  endpoint: string; // Files endpoint that starts a resumable session
+  headers?: Record<string, string>; // Auth for the endpoint; sent with every request
+  displayName?: string;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+  chunkSize?: number; // Bytes per request; a multiple of 256 KiB except for the last chunk
+}
+
+// The files service describes what it stored; only `uri` is required of a stand-in
+export interface UploadedFile {
+  name?: string;
+  uri: string;
+  mimeType?: string;
+  state?: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Largest clip sent inline: request bodies are capped around 20 MB and base64 adds a third
+export const INLINE_MEDIA_LIMIT = 14 * 1024 * 1024;
+
+const checkResponse = (response: Response, step: string) => {
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new ServiceError(kindFromStatus(response.status), undefined, {
+      cause: new Error(`Upload ${step} failed with HTTP ${response.status}`),
+      retryAfter: retryAfter > 0 ? retryAfter * 1000 : undefined
+    });
+  }
+  return response;
+};
+
+/**
+ * Uploads a blob in chunks using the resumable protocol of the Gemini files
+ * API (`X-Goog-Upload-*` headers). A chunk that fails with a transient error
+ * is retried from whatever offset the server reports having received, so a
+ * dropped connection costs at most one chunk.
+ */
+export const uploadResumable = async (blob: Blob, options: UploadOptions): Promise<UploadedFile> => {
+  const { endpoint, headers = {}, signal, onProgress, chunkSize = DEFAULT_CHUNK_SIZE } = options;
+  const mimeType = blob.type || 'application/octet-stream';
+
+  const start = await withRetry(async () => checkResponse(await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(blob.size),
+      'X-Goog-Upload-Header-Content-Type': mimeType
+    },
+    body: JSON.stringify({ file: { display_name: options.displayName } }),
+    signal
+  }), 'start'), signal);
+  const sessionUrl = start.headers.get('X-Goog-Upload-URL');
+  if (!sessionUrl) throw new ServiceError('malformed', "The upload endpoint did not return a session URL.");
+
+  // How much of the blob the server already holds, after an interrupted chunk. If the last
+  // chunk was committed before the connection dropped, the upload is final and the answer
+  // describes the stored file, so it's returned in place of a chunk response.
+  const queryStatus = async (): Promise<{ received: number; finished?: Response }> => {
+    const response = checkResponse(await fetch(sessionUrl, {
+      method: 'POST',
+      headers: { ...headers, 'X-Goog-Upload-Command': 'query' },
+      signal
+    }), 'query');
+    if (response.headers.get('X-Goog-Upload-Status') === 'final') return { received: blob.size, finished: response };
+    return { received: Number(response.headers.get('X-Goog-Upload-Size-Received')) || 0 };
+  };
+
+  let offset = 0;
+  let interrupted = false;
+  onProgress?.(0);
+  for (;;) {
+    const response = await withRetry(async () => {
+      if (interrupted) {
+        const { received, finished } = await queryStatus();
+        offset = received;
+        if (finished) {
+          interrupted = false;
+          return finished;
+        }
+      }
+      interrupted = true;
+      const end = Math.min(offset + chunkSize, blob.size);
+      const last = end === blob.size;
+      const result = checkResponse(await fetch(sessionUrl, {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'X-Goog-Upload-Command': last ? 'upload, finalize' : 'upload',
+          'X-Goog-Upload-Offset': String(offset)
+        },
+        body: blob.slice(offset, end),
+        signal
+      }), 'chunk');
+      interrupted = false;
+      offset = end;
+      return result;
+    }, signal);
+    onProgress?.(offset / blob.size);
+    if (offset < blob.size) continue;
+
+    let body: any;
+    try {
+      body = await response.json();
+    } catch (err) {
+      throw new ServiceError('malformed', undefined, { cause: err });
+    }
+    const file = body?.file ?? body;
+    if (!file?.uri) throw new ServiceError('malformed', "The upload finished without a file URI.");
+    return file;
+  }
+};
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { ModelPrice, UsageRecord, UsageSettings, VisionProvider } from '../types';
+import { createMockProvider } from './providers/mock';
+import { checkBudget, clearUsage, estimateCost, loadUsage, summarizeUsage, usageForItem, withUsageTracking } from './usage';
+
+// The usage log lives in localStorage, which Node doesn't have
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); }
+  }
+});
+
+const PRICES: Record<string, ModelPrice> = {
+  flash: { input: 0.3, output: 2.5 },
+  image: { input: 0.3, output: 30 }
+};
+
+const NOW = new Date(2026, 9, 19, 15, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+let ids = 0;
+const record = (patch: Partial<UsageRecord>): UsageRecord => ({
+  id: String(ids++),
+  timestamp: NOW,
+  operation: 'analyze-image',
+  provider: 'gemini',
+  latencyMs: 1000,
+  model: 'flash',
+  inputTokens: 0,
+  outputTokens: 0,
+  ...patch
+});
+
+// One dollar of `flash` output
+const DOLLAR = 400_000;
+
+const settings = (patch: Partial<UsageSettings> = {}): UsageSettings => ({ prices: PRICES, dailyBudget: 0, monthlyBudget: 0, ...patch });
+
+describe('estimateCost', () => {
+  it('prices input and output per million tokens', () => {
+    assert.equal(estimateCost({ model: 'flash', inputTokens: 1_000_000, outputTokens: 1_000_000 }, PRICES), 2.8);
+  });
+
+  it('counts models without a price as free', () => {
+    assert.equal(estimateCost({ model: 'local-llava', inputTokens: 5000, outputTokens: 5000 }, PRICES), 0);
+  });
+});
+
+describe('checkBudget', () => {
+  const records = [
+    record({ outputTokens: DOLLAR, timestamp: NOW - HOUR }), // Today
+    record({ outputTokens: 3 * DOLLAR, timestamp: NOW - 5 * 24 * HOUR }) // Earlier this month
+  ];
+
+  it('is ok without budgets', () => {
+    assert.deepEqual(checkBudget(records, settings(), NOW), { status: 'ok', period: null, spent: 0, limit: 0 });
+  });
+
+  it('only counts today against the daily budget', () => {
+    const check = checkBudget(records, settings({ dailyBudget: 2 }), NOW);
+    assert.equal(check.status, 'ok');
+    assert.equal(check.period, 'day');
+    assert.ok(Math.abs(check.spent - 1) < 1e-9);
+  });
+
+  it('warns near a limit and refuses once it is reached', () => {
+    assert.equal(checkBudget(records, settings({ monthlyBudget: 5 }), NOW).status, 'warning');
+    assert.equal(checkBudget(records, settings({ monthlyBudget: 4 }), NOW).status, 'exceeded');
+  });
+
+  it('reports whichever budget is closer to its limit', () => {
+    const check = checkBudget(records, settings({ dailyBudget: 10, monthlyBudget: 4.5 }), NOW);
+    assert.equal(check.period, 'month');
+    assert.equal(check.limit, 4.5);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals by day, model and operation, costliest first', () => {
+    const summary = summarizeUsage([
+      record({ model: 'flash', outputTokens: DOLLAR, latencyMs: 1000 }),
+      record({ model: 'image', operation: 'edit-image', outputTokens: 100_000, latencyMs: 3000, timestamp: NOW - 24 * HOUR }),
+      record({ model: 'flash', operation: 'chat', inputTokens: 1000, latencyMs: 2000 })
+    ], PRICES);
+
+    assert.equal(summary.total?.requests, 3);
+    assert.equal(summary.total?.averageLatency, 2000);
+    assert.deepEqual(summary.byDay.map(d => [d.key, d.requests]), [['2026-10-19', 2], ['2026-10-18', 1]]);
+    assert.deepEqual(summary.byModel.map(m => m.key), ['image', 'flash']);
+    assert.deepEqual(summary.byOperation.map(o => o.key), ['edit-image', 'analyze-image', 'chat']);
+  });
+
+  it('has no total without records', () => {
+    assert.equal(summarizeUsage([], PRICES).total, null);
+  });
+});
+
+describe('withUsageTracking', () => {
+  beforeEach(() => clearUsage());
+
+  // Answers edits by reporting the usage of two models, as a fallback would
+  const provider: VisionProvider = {
+    ...createMockProvider(),
+    editImage: async (_raw, _mimeType, _prompt, _mask, options) => {
+      options?.onUsage?.({ model: 'flash', inputTokens: 1000, outputTokens: 100 });
+      options?.onUsage?.({ model: 'image', inputTokens: 1500, outputTokens: 1300 });
+      options?.onUsage?.({ model: 'flash', inputTokens: 500, outputTokens: 50 });
+      return { imageData: 'ZWRpdGVk' };
+    },
+    chat: async (_media, _analysis, _messages, options) => {
+      options?.onUsage?.({ model: 'flash', inputTokens: 200, outputTokens: 0 });
+      throw new Error("Blocked");
+    }
+  };
+
+  it('logs one record per model, each with its own tokens', async () => {
+    const seen: UsageRecord[] = [];
+    const tracked = withUsageTracking(provider, settings(), r => seen.push(r));
+    const forwarded: string[] = [];
+    await tracked.editImage('aW1hZ2U=', 'image/png', 'Sepia', undefined, { itemId: 'capture-1', onUsage: u => forwarded.push(u.model) });
+
+    const logged = loadUsage();
+    assert.deepEqual(logged.map(r => [r.model, r.inputTokens, r.outputTokens]), [['flash', 1500, 150], ['image', 1500, 1300]]);
+    assert.ok(logged.every(r => r.operation === 'edit-image' && r.itemId === 'capture-1' && r.provider === 'mock'));
+    assert.deepEqual(seen, logged);
+    assert.deepEqual(forwarded, ['flash', 'image', 'flash']);
+    assert.deepEqual(usageForItem('capture-1', [logged[0]]), logged);
+  });
+
+  it('logs what a failed call reported', async () => {
+    const tracked = withUsageTracking(provider, settings(), () => {});
+    await assert.rejects(tracked.chat(new Blob(), undefined, [], {}), /Blocked/);
+    assert.deepEqual(loadUsage().map(r => [r.operation, r.inputTokens]), [['chat', 200]]);
+  });
+
+  it('refuses calls once a budget is used up', async () => {
+    const tracked = withUsageTracking(provider, settings({ dailyBudget: 0.001 }), () => {});
+    await tracked.editImage('aW1hZ2U=', 'image/png', 'Sepia', undefined, {});
+    await assert.rejects(tracked.editImage('aW1hZ2U=', 'image/png', 'Sepia', undefined, {}), { name: 'ServiceError', kind: 'budget' });
+  });
+});
@@ -0,0 +1,187 @@
+import { BudgetCheck, ModelPrice, RequestOptions, TokenUsage, UsageOperation, UsageRecord, UsageSettings, VisionProvider } from '../types';
+import { ServiceError } from './errors';
+import { createFileId } from './media';
+
+const USAGE_KEY = 'nanoLensUsage';
+
+// Enough for months of normal use while staying well inside the localStorage quota
+const MAX_RECORDS = 5000;
+
+// Share of a budget at which the user is warned
+export const BUDGET_WARNING_RATIO = 0.8;
+
+// Published list prices in USD per million tokens; editable in the usage dashboard
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 }
+};
+
+export const OPERATION_LABELS: Record<UsageOperation, string> = {
+  'analyze-image': 'Image analysis',
+  'analyze-video': 'Video analysis',
+  'edit-image': 'Image edits',
+  chat: 'Chat',
+  'extract-text': 'Document text'
+};
+
+export const loadUsage = (): UsageRecord[] => {
+  try {
+    const saved = localStorage.getItem(USAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load usage", e);
+    return [];
+  }
+};
+
+const appendUsage = (record: UsageRecord) => {
+  const records = [...loadUsage(), record].slice(-MAX_RECORDS);
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.error("Failed to save usage", e);
+  }
+};
+
+export const clearUsage = () => localStorage.removeItem(USAGE_KEY);
+
+/** The logged calls made for one capture, merged with those already on its history item. */
+export const usageForItem = (itemId: string, existing: UsageRecord[] = []): UsageRecord[] => {
+  const logged = loadUsage().filter(r => r.itemId === itemId && !existing.some(e => e.id === r.id));
+  return [...existing, ...logged];
+};
+
+export const estimateCost = (usage: TokenUsage, prices: Record<string, ModelPrice>) => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+export const formatCost = (usd: number) => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const startOfDay = (now: number) => new Date(now).setHours(0, 0, 0, 0);
+
+const startOfMonth = (now: number) => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+/** Where spending stands against the daily and monthly budgets, reporting whichever is closer to its limit. */
+export const checkBudget = (records: UsageRecord[], settings: UsageSettings, now = Date.now()): BudgetCheck => {
+  const spentSince = (start: number) => records
+    .filter(r => r.timestamp >= start)
+    .reduce((sum, r) => sum + estimateCost(r, settings.prices), 0);
+
+  const budgets = [
+    { period: 'day' as const, limit: settings.dailyBudget, spent: settings.dailyBudget > 0 ? spentSince(startOfDay(now)) : 0 },
+    { period: 'month' as const, limit: settings.monthlyBudget, spent: settings.monthlyBudget > 0 ? spentSince(startOfMonth(now)) : 0 }
+  ].filter(b => b.limit > 0);
+  if (!budgets.length) return { status: 'ok', period: null, spent: 0, limit: 0 };
+
+  const closest = budgets.reduce((a, b) => b.spent / b.limit > a.spent / a.limit ? b : a);
+  const ratio = closest.spent / closest.limit;
+  return {
+    status: ratio >= 1 ? 'exceeded' : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok',
+    period: closest.period,
+    spent: closest.spent,
+    limit: closest.limit
+  };
+};
+
+export interface UsageTotals {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  averageLatency: number; // ms
+}
+
+const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const totalsBy = (records: UsageRecord[], prices: Record<string, ModelPrice>, keyOf: (r: UsageRecord) => string): UsageTotals[] => {
+  const groups = new Map<string, UsageTotals & { latency: number }>();
+  records.forEach(r => {
+    const key = keyOf(r);
+    const group = groups.get(key) || { key, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, averageLatency: 0, latency: 0 };
+    group.requests++;
+    group.inputTokens += r.inputTokens;
+    group.outputTokens += r.outputTokens;
+    group.cost += estimateCost(r, prices);
+    group.latency += r.latencyMs;
+    groups.set(key, group);
+  });
+  return [...groups.values()].map(({ latency, ...totals }) => ({ ...totals, averageLatency: latency / totals.requests }));
+};
+
+/** Totals for the dashboard: overall, per day (newest first), per model and per operation (costliest first). */
+export const summarizeUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>) => {
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.requests - a.requests;
+  return {
+    total: totalsBy(records, prices, () => 'total')[0] ?? null,
+    byDay: totalsBy(records, prices, r => dayKey(r.timestamp)).sort((a, b) => b.key.localeCompare(a.key)),
+    byModel: totalsBy(records, prices, r => r.model).sort(byCost),
+    byOperation: totalsBy(records, prices, r => r.operation).sort(byCost)
+  };
+};
+
+/**
+ * Logs the token counts and latency of every call, one record per model it
+ * used, refusing new calls once a budget is used up. `onRecord` sees each
+ * record after it has been logged.
+ */
+export const withUsageTracking = (provider: VisionProvider, settings: UsageSettings, onRecord: (record: UsageRecord) => void): VisionProvider => {
+  const track = async <T>(operation: UsageOperation, options: RequestOptions | undefined, call: (options: RequestOptions) => Promise<T>): Promise<T> => {
+    const budget = checkBudget(loadUsage(), settings);
+    if (budget.status === 'exceeded') {
+      throw new ServiceError('budget', `The ${budget.period === 'day' ? 'daily' : 'monthly'} budget of ${formatCost(budget.limit)} is used up. Raise it in the usage dashboard or wait for the next ${budget.period}.`);
+    }
+
+    // A call can span several responses, e.g. retries or an upload followed by generation, and
+    // they may come from different models. Tokens are added up per model so each is priced at its own rate.
+    const usage = new Map<string, TokenUsage>();
+    const started = performance.now();
+    try {
+      return await call({
+        ...options,
+        onUsage: reported => {
+          const sum = usage.get(reported.model);
+          usage.set(reported.model, sum
+            ? { model: reported.model, inputTokens: sum.inputTokens + reported.inputTokens, outputTokens: sum.outputTokens + reported.outputTokens }
+            : reported);
+          options?.onUsage?.(reported);
+        }
+      });
+    } finally {
+      // Blocked or failed responses can still be billed, so anything reported is logged
+      const latencyMs = Math.round(performance.now() - started);
+      usage.forEach(totals => {
+        const record: UsageRecord = {
+          ...totals,
+          id: createFileId(),
+          timestamp: Date.now(),
+          operation,
+          provider: provider.id,
+          latencyMs,
+          itemId: options?.itemId
+        };
+        appendUsage(record);
+        onRecord(record);
+      });
+    }
+  };
+
+  return {
+    ...provider,
+    analyzeImage: (raw, mimeType, preset, options) => track('analyze-image', options, o => provider.analyzeImage(raw, mimeType, preset, o)),
+    analyzeVideo: (video, preset, options) => track('analyze-video', options, o => provider.analyzeVideo(video, preset, o)),
+    editImage: (raw, mimeType, prompt, mask, options) => track('edit-image', options, o => provider.editImage(raw, mimeType, prompt, mask, o)),
+    chat: (media, analysis, messages, options) => track('chat', options, o => provider.chat(media, analysis, messages, o)),
+    extractText: (raw, mimeType, options) => track('extract-text', options, o => provider.extractText(raw, mimeType, o))
+  };
+};
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createZip, readZip } from './zip';
+
+const text = (blob: Blob | undefined) => blob ? blob.text() : Promise.resolve(undefined);
+
+describe('zip', () => {
+  it('reads back what it wrote', async () => {
+    const zip = await createZip([
+      { name: 'manifest.json', data: new Blob(['{"version":1}']) },
+      { name: 'media/café.jpg', data: new Blob([new Uint8Array([0xFF, 0xD8, 0xFF, 0x00])]) },
+      { name: 'empty.txt', data: new Blob([]) }
+    ]);
+    assert.equal(zip.type, 'application/zip');
+
+    const files = await readZip(zip);
+    assert.deepEqual([...files.keys()], ['manifest.json', 'media/café.jpg', 'empty.txt']);
+    assert.equal(await text(files.get('manifest.json')), '{"version":1}');
+    assert.deepEqual(new Uint8Array(await files.get('media/café.jpg')!.arrayBuffer()), new Uint8Array([0xFF, 0xD8, 0xFF, 0x00]));
+    assert.equal(files.get('empty.txt')!.size, 0);
+  });
+
+  it('writes the standard CRC-32 so other tools accept the archive', async () => {
+    const zip = new DataView(await (await createZip([{ name: 'a.txt', data: new Blob(['hello']) }])).arrayBuffer());
+    assert.equal(zip.getUint32(0, true), 0x04034B50);
+    assert.equal(zip.getUint32(14, true), 0x3610A686);
+  });
+
+  it('skips directory entries', async () => {
+    const files = await readZip(await createZip([{ name: 'media/', data: new Blob([]) }, { name: 'media/a.txt', data: new Blob(['a']) }]));
+    assert.deepEqual([...files.keys()], ['media/a.txt']);
+  });
+
+  it('refuses files that are not archives', async () => {
+    await assert.rejects(readZip(new Blob(['not a zip at all, just some text'])), /Not a ZIP archive/);
+  });
+});
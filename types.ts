@@ -1,6 +1,62 @@
+// Normalized to the image size: 0..1 from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedObject {
+  label: string;
+  confidence: number; // 0..1
+  box: BoundingBox;
+}
+
+export interface TextRegion {
+  text: string;
+  box: BoundingBox;
+}
+
+export interface VideoSegment {
+  start: number; // Seconds from the start of the clip
+  end: number;
+  title: string;
+  summary: string;
+  keyframe?: string; // Small JPEG data URL grabbed at `start`
+}
+
+export interface VideoEvent {
+  time: number; // Seconds from the start of the clip
+  label: string;
+}
+
 export interface AnalysisResult {
   description?: string;
   points?: string[]; // For the 1, 2, 3 bullet points
+  objects?: DetectedObject[]; // Missing on entries saved before detections existed
+  textRegions?: TextRegion[];
+  segments?: VideoSegment[]; // Video only
+  events?: VideoEvent[]; // Video only
+  fields?: Record<string, StructuredValue>; // Values for the preset's output fields
+  incomplete?: boolean; // The response stopped partway; this is what arrived before it did
+}
+
+export type StructuredValue = string | number | boolean | string[];
+
+export type PresetFieldType = 'text' | 'number' | 'boolean' | 'list';
+
+export interface PresetField {
+  name: string; // Key the model fills in, e.g. "calories"
+  type: PresetFieldType;
+  description: string;
+}
+
+export interface AnalysisPreset {
+  id: string;
+  name: string;
+  instruction: string; // Added to the analysis prompt; empty for the general preset
+  fields: PresetField[]; // Optional structured output
+  builtIn?: boolean;
 }
 
 export interface EditResult {
@@ -8,28 +64,315 @@ export interface EditResult {
   textResponse?: string;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners normalized to the frame: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface DocumentPageMeta {
+  id: string;
+  text: string; // Extracted text in reading order, editable by the user
+}
+
+export interface DocumentPage extends DocumentPageMeta {
+  image: string; // JPEG data URL of the perspective-corrected page
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+}
+
+export type ProviderKind = 'gemini' | 'http' | 'proxy' | 'mock';
+
+// Why a model request failed, as far as the app can tell
+export type ServiceErrorKind = 'auth' | 'rate-limit' | 'safety' | 'network' | 'timeout' | 'malformed' | 'unavailable' | 'budget' | 'unknown';
+
+// The one thing the user is offered to get past a failure
+export type RecoveryAction = 'settings' | 'usage' | 'retry' | 'rephrase' | 'none';
+
+// A failure as shown to the user
+export interface AppError {
+  title: string; // What failed, e.g. "Could not analyze image."
+  detail?: string; // Why, and what to do about it
+  kind?: ServiceErrorKind; // Absent for local failures such as exports
+  action: RecoveryAction;
+  recover?: () => void; // Runs the retry or rephrase action; 'settings' needs none
+}
+
+// Per-call options every provider method accepts
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting rejects the call and drops the upstream request
+  onUploadProgress?: (fraction: number) => void; // For media too large to send inline
+  onUsage?: (usage: TokenUsage) => void; // Providers report the token counts of every response
+  itemId?: string; // The capture the call is for, so its usage can be filed with it
+  refresh?: boolean; // Ask the provider even if an identical analysis is cached
+  onPartialAnalysis?: (partial: AnalysisResult) => void; // Providers that stream report the analysis so far as it grows
+}
+
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageOperation = 'analyze-image' | 'analyze-video' | 'edit-image' | 'chat' | 'extract-text';
+
+// One provider call, as kept in the usage log and on the related history item
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  timestamp: number;
+  operation: UsageOperation;
+  provider: ProviderKind;
+  latencyMs: number;
+  itemId?: string;
+}
+
+export interface ModelPrice {
+  input: number; // USD per million tokens
+  output: number;
+}
+
+export interface UsageSettings {
+  prices: Record<string, ModelPrice>; // Keyed by model id
+  dailyBudget: number; // USD; 0 for no limit
+  monthlyBudget: number;
+}
+
+export interface BudgetCheck {
+  status: 'ok' | 'warning' | 'exceeded';
+  period: 'day' | 'month' | null; // The budget closest to its limit
+  spent: number;
+  limit: number;
+}
+
+// Everything the app needs from a vision backend
+export interface VisionProvider {
+  id: ProviderKind;
+  label: string;
+  analyzeImage(raw: string, mimeType: string, preset?: AnalysisPreset, options?: RequestOptions): Promise<AnalysisResult>;
+  // Takes the clip itself so large ones can be uploaded in chunks instead of inlined
+  analyzeVideo(video: Blob, preset?: AnalysisPreset, options?: RequestOptions): Promise<AnalysisResult>;
+  // `mask` is a black/white PNG (raw base64); only the white region may change
+  editImage(raw: string, mimeType: string, prompt: string, mask?: string, options?: RequestOptions): Promise<EditResult>;
+  // Answers the last user message, with the capture and its analysis as context. Takes the
+  // media itself, like analyzeVideo, so a large clip is uploaded rather than inlined.
+  chat(media: Blob, analysis: AnalysisResult | undefined, messages: ChatMessage[], options?: RequestOptions): Promise<string>;
+  // Transcribes all text on a document page, keeping reading order
+  extractText(raw: string, mimeType: string, options?: RequestOptions): Promise<string>;
+  // A cheap request that fails the same way a real one would with bad credentials or models
+  testConnection(options?: RequestOptions): Promise<void>;
+}
+
+export interface GeminiProviderSettings {
+  apiKey: string; // Entered at runtime and kept on this device only
+  analysisModel: string;
+  editModel: string;
+  baseUrl?: string; // Overrides the API host, e.g. with a local stand-in
+}
+
+export interface HttpProviderSettings {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  editModel: string; // Falls back to `model` when empty
+  apiKey: string;
+}
+
+export interface ProxyProviderSettings {
+  baseUrl: string; // The bundled proxy server, e.g. http://localhost:8787
+  token: string; // Per-user access token issued by whoever runs the proxy
+}
+
+export type ImageCodec = 'image/jpeg' | 'image/webp' | 'image/png';
+
+export interface PreprocessOptions {
+  maxDimension: number; // Longest edge in pixels after downscaling
+  codec: ImageCodec;
+  quality: number; // 0..1, ignored for PNG
+}
+
+// Recorded on each processed image so upload savings can be checked
+export interface PreprocessDiagnostics {
+  originalBytes: number;
+  processedBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  orientation: number; // EXIF orientation of the original, applied by the browser while decoding (1 = none)
+}
+
+export interface AppSettings {
+  provider: ProviderKind;
+  gemini: GeminiProviderSettings;
+  http: HttpProviderSettings;
+  proxy: ProxyProviderSettings;
+  generation: GenerationOptions;
+  usage: UsageSettings;
+  preprocess: PreprocessOptions;
+  requestTimeout: number; // Seconds before a model request is abandoned
+  video: VideoOptions;
+}
+
+export interface GenerationOptions {
+  temperature: number; // 0 to 2
+  language: string; // Language for descriptions and answers, e.g. "German"; empty for the model's choice
+}
+
+export interface VideoOptions {
+  maxDuration: number; // Seconds; recording stops by itself at this length
+  uploadEndpoint: string; // Resumable files endpoint for large clips; empty for the provider's own
+}
+
+export interface EditStepMeta {
+  id: string;
+  parentId: string | null; // null when the step was made from the original capture
+  prompt: string;
+  timestamp: number;
+  masked?: boolean; // Edit was limited to a painted region
+}
+
+export interface EditStep extends EditStepMeta {
+  image: string; // PNG data URL of the edit result
+}
+
+export interface EditChain {
+  steps: EditStep[];
+  currentId: string | null; // null shows the original capture
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   RECORDING = 'RECORDING', // New state for video recording
+  ADJUSTING = 'ADJUSTING', // Adjusting document corners after a scan
   ANALYZING = 'ANALYZING',
   VIEWING = 'VIEWING',
-  EDITING = 'EDITING',
-  ERROR = 'ERROR'
+  EDITING = 'EDITING'
+}
+
+export type CameraFacing = 'environment' | 'user';
+
+export type CameraResolution = '720p' | '1080p' | '4k';
+
+export interface CameraSettings {
+  deviceId: string | null; // A specific camera; wins over `facing` when set
+  facing: CameraFacing;
+  resolution: CameraResolution;
+  torch: boolean;
+}
+
+// What the active camera track can do, from getCapabilities()
+export interface CameraCapabilities {
+  zoom: { min: number; max: number; step: number } | null;
+  torch: boolean;
+  focus: boolean; // Tap-to-focus through pointsOfInterest
+  exposure: boolean;
 }
 
 export enum CaptureMode {
   PHOTO = 'PHOTO',
-  VIDEO = 'VIDEO'
+  VIDEO = 'VIDEO',
+  DOCUMENT = 'DOCUMENT',
+  LIVE = 'LIVE'
 }
 
+// What the live scanner is doing, shown on the camera overlay
+export type LiveScanStatus = 'watching' | 'moving' | 'settling' | 'analyzing';
+
 export interface ImageFile {
   id: string; // Unique ID for history
   preview: string; // Base64 for display
   raw: string; // Base64 for API (no header)
+  blob?: Blob; // Original video, so large clips can be uploaded without decoding `raw`
   mimeType: string;
+  hash?: string; // SHA-256 of the preprocessed media, hex encoded; identical content shares one history entry
   timestamp: number;
   type: 'image' | 'video';
   analysis?: AnalysisResult;
+  edits?: EditChain;
+  chat?: ChatMessage[];
+  pages?: DocumentPage[]; // Set for document scans; preview is the first page
+  diagnostics?: PreprocessDiagnostics;
+  preset?: AnalysisPreset; // Snapshot of the preset used, so re-runs don't depend on it still existing
 }
 
-export type HistoryItem = ImageFile;
\ No newline at end of file
+// Lightweight record kept in the history store; full media is loaded on demand
+export interface HistoryItem {
+  id: string;
+  thumbnail: string; // Small JPEG data URL for the history drawer
+  mimeType: string;
+  timestamp: number;
+  type: 'image' | 'video';
+  size: number; // Bytes of the stored media blob
+  analysis?: AnalysisResult;
+  edits?: { steps: EditStepMeta[]; currentId: string | null }; // Step images live in the media store
+  chat?: ChatMessage[];
+  pages?: DocumentPageMeta[]; // Page images live in the media store
+  diagnostics?: PreprocessDiagnostics;
+  preset?: AnalysisPreset;
+  tags?: string[];
+  favorite?: boolean; // Favorites are exempt from the history limit
+  hash?: string; // SHA-256, hex encoded: the capture's ImageFile.hash (its preprocessed payload), else computed from the stored blob
+  pending?: boolean; // Saved before it could be analyzed; the deferred queue picks it up
+  usage?: UsageRecord[]; // Every provider call made for this capture
+}
+
+export interface ArchiveImportReport {
+  imported: HistoryItem[];
+  skipped: { id: string; reason: string }[];
+}
+
+export type HistoryTypeFilter = 'all' | 'image' | 'video' | 'document';
+
+export interface HistoryFilter {
+  query: string;
+  type: HistoryTypeFilter;
+  favoritesOnly: boolean;
+  tag: string | null;
+  from: string; // yyyy-mm-dd from a date input, empty for no bound
+  to: string;
+}
+
+export interface QueueJob {
+  id: string;
+  name: string; // File name shown in the queue panel
+  status: 'queued' | 'running' | 'done' | 'failed';
+  progress: number; // 0..1
+  error?: string;
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+export type ReportFormat = 'pdf' | 'md' | 'html' | 'json';
+
+export interface ReportEntry {
+  id: string;
+  timestamp: number;
+  type: 'image' | 'video';
+  mimeType: string;
+  width?: number; // Size of the original capture
+  height?: number;
+  image?: string; // Latest edit, original, or a poster frame for videos
+  preset?: string; // Name of the analysis preset
+  description?: string;
+  points: string[];
+  fields?: Record<string, StructuredValue>;
+  edits: { prompt: string; timestamp: number; masked?: boolean }[]; // Active path, oldest first
+  segments?: VideoSegment[];
+  events?: VideoEvent[];
+  chat?: ChatMessage[];
+  pages?: DocumentPageMeta[];
+}
+
+export interface Report {
+  title: string;
+  generatedAt: number;
+  entries: ReportEntry[];
+}
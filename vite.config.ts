@@ -1,19 +1,34 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+const SW_BUILD_LINE = "const BUILD = { version: 'dev', assets: [] };";
+
+// Writes the hashed build output into the copied public/sw.js so it's precached on install
+const precacheAssets = (): Plugin => ({
+  name: 'nano-lens-precache',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const file = path.join(options.dir!, 'sw.js');
+    if (!fs.existsSync(file)) return;
+    const assets = Object.keys(bundle).filter(name => name.startsWith('assets/')).sort().map(name => `/${name}`);
+    const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(file, 'utf8');
+    if (!source.includes(SW_BUILD_LINE)) throw new Error("public/sw.js no longer declares BUILD; update precacheAssets");
+    fs.writeFileSync(file, source.replace(SW_BUILD_LINE, `const BUILD = ${JSON.stringify({ version, assets })};`));
+  }
+});
+
+// API keys are entered in Settings at runtime; nothing secret is built into the bundle
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), precacheAssets()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),